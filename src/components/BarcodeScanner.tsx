@@ -5,36 +5,199 @@
  * manual input fallback option. It uses the device camera to detect and decode
  * barcodes in real-time, while also giving users the ability to manually enter
  * article numbers for items with damaged or unreadable barcodes.
+ *
+ * A multiplier lets one scan count several units: either a preset (e.g. x12
+ * for a case) applied to every scan, or "Ask" mode, which opens a quantity
+ * prompt after each scan, or once for a whole batch before it is counted.
+ *
+ * Only the symbologies enabled in the scanner settings are decoded, and GTIN
+ * reads with a wrong check digit are rejected. Rejected reads are shown in
+ * the overlay instead of being passed on.
+ *
+ * A barcode is counted once while it stays in view and again only after it
+ * has been out of view for the cooldown window. In single mode the scanner
+ * confirms each scan and pauses until the operator asks for the next one;
+ * in continuous mode it keeps scanning for fast walking counts. Batch mode
+ * collects every distinct barcode in view over a short capture window, shows
+ * them as highlighted boxes and counts them together once confirmed.
+ *
+ * The outcome of the most recent scan, passed in by the parent screen, is
+ * shown in a feedback overlay with its vibration.
  */
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   StyleSheet,
   View,
   Text,
   TouchableOpacity,
   Dimensions,
+  LayoutChangeEvent,
+  ScrollView,
 } from 'react-native';
 import { Camera, useCameraDevices, useFrameProcessor } from 'react-native-vision-camera';
-import { scanBarcodes, BarcodeFormat } from 'vision-camera-code-scanner';
+import { scanBarcodes, Barcode, BarcodeFormat } from 'vision-camera-code-scanner';
 import { runOnJS } from 'react-native-reanimated';
 import ManualInputModal from './ManualInputModal';
+import TextPromptModal from './TextPromptModal';
+import ScanFeedbackOverlay from './ScanFeedbackOverlay';
+import {
+  BarcodeRejectReason,
+  BatchScan,
+  ScanFeedback,
+  ScanMode,
+  ScannerSettings,
+  ScanSource,
+  Symbology,
+} from '../types';
+import { checkBarcodeRead } from '../utils/checkDigit';
+import { isValidScanQuantity, MAX_SCAN_QUANTITY } from '../services/InventoryListService';
+import { filterRead, RecentReads } from '../utils/scanCooldown';
+import { addBatchRead, BarcodeRect, BatchRead, Size, toViewRect } from '../utils/batchCapture';
+import defaultScannerSettings from '../config/scanner-config.json';
 
 /**
  * Props interface for the BarcodeScanner component
  */
 interface BarcodeScannerProps {
-  onBarcodeScanned: (barcode: string) => void; // Callback when a barcode is successfully scanned or entered manually
+  onBarcodeScanned: (barcode: string, quantity: number, source: ScanSource) => void; // Callback when a barcode is successfully scanned or entered manually
+  onBatchScanned?: (scans: BatchScan[]) => void; // Callback with a confirmed batch; batch mode is offered only when set
   onClose: () => void;                        // Callback to close/dismiss the scanner
+  settings?: ScannerSettings;                 // Allowed symbologies, check-digit validation and scan mode
+  feedback?: ScanFeedback | null;             // Outcome of the most recent scan, shown in the overlay
+  paused?: boolean;                           // Stops reading barcodes while the parent shows a prompt, e.g. for a serial number
+}
+
+/**
+ * Multiplier presets offered in the scanner overlay
+ * 'ask' prompts for the quantity after every camera scan
+ */
+const MULTIPLIER_PRESETS: Array<number | 'ask'> = [1, 6, 12, 24, 'ask'];
+
+/**
+ * Decoder formats for each symbology
+ */
+const SYMBOLOGY_FORMATS: Record<Symbology, BarcodeFormat> = {
+  ean13: BarcodeFormat.EAN_13,
+  ean8: BarcodeFormat.EAN_8,
+  upc_a: BarcodeFormat.UPC_A,
+  upc_e: BarcodeFormat.UPC_E,
+  code128: BarcodeFormat.CODE_128,
+  code39: BarcodeFormat.CODE_39,
+  itf: BarcodeFormat.ITF,
+  datamatrix: BarcodeFormat.DATA_MATRIX,
+  qr: BarcodeFormat.QR_CODE,
+};
+
+/**
+ * Messages shown in the overlay for rejected reads
+ */
+const REJECT_MESSAGES: Record<BarcodeRejectReason, string> = {
+  symbology_not_allowed: 'Barcode type not allowed',
+  invalid_check_digit: 'Invalid check digit',
+};
+
+/**
+ * Labels of the scan mode toggle, in the order the toggle cycles through them
+ */
+const SCAN_MODE_LABELS: Record<ScanMode, string> = {
+  single: 'Single',
+  continuous: 'Continuous',
+  batch: 'Batch',
+};
+
+/**
+ * How long a batch capture collects barcodes after the first one was seen
+ */
+const BATCH_CAPTURE_MS = 1500;
+
+/**
+ * A barcode detected in a camera frame
+ */
+interface CameraRead {
+  barcode: string;            // Decoded barcode value
+  format: BarcodeFormat;      // Decoder format of the barcode
+  rect: BarcodeRect | null;   // Bounding box in frame coordinates
+}
+
+/**
+ * Progress of a batch capture
+ */
+type BatchState =
+  | 'idle'                    // Waiting for the first barcode
+  | 'capturing'               // Collecting barcodes until the capture window ends
+  | 'review';                 // Camera paused, waiting for the operator to confirm or discard
+
+/**
+ * How long a rejected read stays visible in the overlay
+ */
+const REJECT_MESSAGE_MS = 2000;
+
+/**
+ * Finds the symbology of a decoder format
+ */
+function toSymbology(format: BarcodeFormat): Symbology | null {
+  const entry = (Object.keys(SYMBOLOGY_FORMATS) as Symbology[]).find(
+    symbology => SYMBOLOGY_FORMATS[symbology] === format
+  );
+  return entry || null;
 }
 
 /**
  * Camera-based barcode scanner with manual input option
  */
-const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onBarcodeScanned, onClose }) => {
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
+  onBarcodeScanned,
+  onBatchScanned,
+  onClose,
+  settings = defaultScannerSettings as ScannerSettings,
+  feedback = null,
+  paused = false,
+}) => {
   // State to track camera permission status
   const [hasPermission, setHasPermission] = useState(false);
   // State to control the visibility of the manual input modal
   const [showManualInput, setShowManualInput] = useState(false);
+  // Selected multiplier preset applied to camera scans
+  const [multiplier, setMultiplier] = useState<number | 'ask'>(1);
+  // Barcode read by the camera that is waiting for a quantity in 'ask' mode
+  const [pendingBarcode, setPendingBarcode] = useState<string | null>(null);
+  // Most recent read that was rejected, shown in the overlay for a moment
+  const [rejectedRead, setRejectedRead] = useState<{ barcode: string; reason: BarcodeRejectReason } | null>(null);
+  // Whether the scanner pauses after each scan or keeps scanning
+  const [scanMode, setScanMode] = useState<ScanMode>(
+    settings.scanMode === 'batch' && !onBatchScanned ? 'continuous' : settings.scanMode
+  );
+  // Barcode counted in single mode; the camera is paused while it is shown
+  const [confirmedBarcode, setConfirmedBarcode] = useState<string | null>(null);
+  // Distinct barcodes collected in batch mode, with the progress of the capture
+  const [batch, setBatch] = useState<BatchRead[]>([]);
+  const [batchState, setBatchState] = useState<BatchState>('idle');
+  // Whether the quantity per barcode of a batch is being asked for in 'ask' mode
+  const [isBatchQuantityPromptVisible, setBatchQuantityPromptVisible] = useState(false);
+  // Size of the camera frames the batch boxes were reported in, and of the preview
+  const [frameSize, setFrameSize] = useState<Size | null>(null);
+  const [viewSize, setViewSize] = useState<Size | null>(null);
+  // Latest values for the frame processor callback, which is created only once
+  const multiplierRef = useRef(multiplier);
+  multiplierRef.current = multiplier;
+  const isPromptOpenRef = useRef(false);
+  isPromptOpenRef.current = paused || showManualInput || pendingBarcode !== null || confirmedBarcode !== null ||
+    isBatchQuantityPromptVisible;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const scanModeRef = useRef(scanMode);
+  scanModeRef.current = scanMode;
+  const batchRef = useRef(batch);
+  batchRef.current = batch;
+  const batchStateRef = useRef(batchState);
+  batchStateRef.current = batchState;
+  // When each barcode value was last read, for the cooldown window
+  const recentReadsRef = useRef<RecentReads>(new Map());
+  // Decoder formats of the enabled symbologies
+  const formats = useMemo(
+    () => settings.symbologies.map(symbology => SYMBOLOGY_FORMATS[symbology]),
+    [settings]
+  );
   // Get available camera devices using Vision Camera hooks
   const devices = useCameraDevices();
   // Use the back camera for barcode scanning
@@ -45,6 +208,20 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onBarcodeScanned, onClo
     checkPermission();
   }, []);
 
+  // Hide the rejected read message after a moment
+  useEffect(() => {
+    if (!rejectedRead) return;
+    const timer = setTimeout(() => setRejectedRead(null), REJECT_MESSAGE_MS);
+    return () => clearTimeout(timer);
+  }, [rejectedRead]);
+
+  // End the batch capture window and wait for the operator to review it
+  useEffect(() => {
+    if (batchState !== 'capturing') return;
+    const timer = setTimeout(() => setBatchState('review'), BATCH_CAPTURE_MS);
+    return () => clearTimeout(timer);
+  }, [batchState]);
+
   /**
    * Requests camera permission from the user
    */
@@ -53,6 +230,98 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onBarcodeScanned, onClo
     setHasPermission(status === 'authorized');
   };
 
+  /**
+   * Counts the barcode if the camera read it once
+   * In single mode the scan is confirmed and the camera paused
+   * @param barcode - The scanned barcode
+   * @param quantity - Number of units to count for the barcode
+   */
+  const countCameraScan = useCallback((barcode: string, quantity: number) => {
+    onBarcodeScanned(barcode, quantity, 'camera');
+    if (scanModeRef.current === 'single') {
+      setConfirmedBarcode(barcode);
+    }
+  }, [onBarcodeScanned]);
+
+  /**
+   * Applies the selected multiplier to a barcode read by the camera
+   * Repeated reads of a barcode within the cooldown window are ignored, and
+   * reads that fail the symbology or check-digit checks are shown as rejected.
+   * In 'ask' mode the quantity prompt is opened instead; further reads are
+   * ignored until it is closed
+   * @param barcode - The decoded barcode value
+   * @param format - Decoder format of the barcode
+   */
+  const handleCameraRead = useCallback((barcode: string, format: BarcodeFormat) => {
+    if (isPromptOpenRef.current) return;
+    const read = filterRead(recentReadsRef.current, barcode, Date.now(), settingsRef.current.cooldownMs);
+    recentReadsRef.current = read.recent;
+    if (!read.accepted) return;
+    const check = checkBarcodeRead(barcode, toSymbology(format), settingsRef.current);
+    if (!check.ok) {
+      setRejectedRead(current =>
+        current?.barcode === barcode && current.reason === check.reason ? current : { barcode, reason: check.reason }
+      );
+      return;
+    }
+    if (multiplierRef.current === 'ask') {
+      setPendingBarcode(barcode);
+      return;
+    }
+    countCameraScan(barcode, multiplierRef.current);
+  }, [countCameraScan]);
+
+  /**
+   * Adds the barcodes of a frame to the batch while it is being captured
+   * The first valid barcode starts the capture window. Barcodes already in the
+   * batch only update their box; new ones must pass the cooldown and the
+   * symbology and check-digit checks
+   * @param reads - Barcodes detected in the frame
+   * @param frame - Size of the frame the boxes refer to
+   */
+  const handleBatchReads = useCallback((reads: CameraRead[], frame: Size) => {
+    if (isPromptOpenRef.current || batchStateRef.current === 'review') return;
+    const now = Date.now();
+    let next = batchRef.current;
+    reads.forEach(read => {
+      const filtered = filterRead(recentReadsRef.current, read.barcode, now, settingsRef.current.cooldownMs);
+      recentReadsRef.current = filtered.recent;
+      const inBatch = next.some(entry => entry.barcode === read.barcode);
+      if (!inBatch) {
+        if (!filtered.accepted) return;
+        const check = checkBarcodeRead(read.barcode, toSymbology(read.format), settingsRef.current);
+        if (!check.ok) {
+          setRejectedRead({ barcode: read.barcode, reason: check.reason });
+          return;
+        }
+      }
+      next = addBatchRead(next, read.barcode, read.rect);
+    });
+    if (next === batchRef.current) return;
+
+    batchRef.current = next;
+    setBatch(next);
+    setFrameSize(frame);
+    if (batchStateRef.current === 'idle') {
+      setBatchState('capturing');
+    }
+  }, []);
+
+  /**
+   * Passes the barcodes of a frame on to the handler of the current mode
+   * Outside batch mode only the first barcode is used
+   * @param reads - Barcodes detected in the frame
+   * @param frameWidth - Width of the frame
+   * @param frameHeight - Height of the frame
+   */
+  const handleCameraReads = useCallback((reads: CameraRead[], frameWidth: number, frameHeight: number) => {
+    if (scanModeRef.current === 'batch') {
+      handleBatchReads(reads, { width: frameWidth, height: frameHeight });
+    } else {
+      handleCameraRead(reads[0].barcode, reads[0].format);
+    }
+  }, [handleBatchReads, handleCameraRead]);
+
   /**
    * Frame processor to analyze camera frames for barcodes
    * Uses the vision-camera-code-scanner plugin to detect barcodes in real-time
@@ -60,19 +329,121 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onBarcodeScanned, onClo
   const frameProcessor = useFrameProcessor((frame) => {
     'worklet';
     // Scan the current frame for any barcodes
-    const detectedBarcodes = scanBarcodes(frame, [BarcodeFormat.ALL_FORMATS]);
-    // If a barcode is detected, invoke the callback with the barcode value
-    if (detectedBarcodes.length > 0 && detectedBarcodes[0].displayValue) {
-      runOnJS(onBarcodeScanned)(detectedBarcodes[0].displayValue);
+    const detectedBarcodes = scanBarcodes(frame, formats);
+    const reads: CameraRead[] = detectedBarcodes
+      .filter((barcode: Barcode) => !!barcode.displayValue)
+      .map((barcode: Barcode) => ({
+        barcode: barcode.displayValue as string,
+        format: barcode.format,
+        rect: barcode.boundingBox || null,
+      }));
+    // If any barcode is detected, invoke the callback with all of them and the frame size
+    if (reads.length > 0) {
+      runOnJS(handleCameraReads)(reads, frame.width, frame.height);
     }
-  }, []);
+  }, [handleCameraReads, formats]);
 
   /**
    * Handles manual input of article numbers when the barcode can't be scanned
    * @param articleNumber - The manually entered article number
+   * @param quantity - Number of units to count for the article
+   */
+  const handleManualInput = (articleNumber: string, quantity: number) => {
+    onBarcodeScanned(articleNumber, quantity, 'manual');
+  };
+
+  /**
+   * Handles the quantity entered for a barcode scanned in 'ask' mode
+   * @param barcode - The scanned barcode (may have been edited by the operator)
+   * @param quantity - Number of units to count for the barcode
+   */
+  const handleAskedQuantity = (barcode: string, quantity: number) => {
+    countCameraScan(barcode, quantity);
+  };
+
+  /**
+   * Drops the collected batch and waits for the next capture
+   */
+  const resetBatch = () => {
+    batchRef.current = [];
+    setBatch([]);
+    setBatchState('idle');
+  };
+
+  /**
+   * Counts the reviewed batch with the selected multiplier
+   * In 'ask' mode the quantity per barcode is asked for first
+   */
+  const handleConfirmBatch = () => {
+    if (multiplier === 'ask') {
+      setBatchQuantityPromptVisible(true);
+      return;
+    }
+    countBatch(multiplier);
+  };
+
+  /**
+   * Checks the quantity per barcode entered for a batch in 'ask' mode
+   * The prompt stays open with the message until the quantity is valid
+   * @param value - Quantity as typed by the operator
+   * @returns Why the quantity cannot be used, or null if it can
+   */
+  const validateBatchQuantity = (value: string): string | null =>
+    isValidScanQuantity(Number(value)) ? null : `Enter a whole number from 1 to ${MAX_SCAN_QUANTITY}`;
+
+  /**
+   * Counts the batch with the quantity per barcode entered in 'ask' mode
+   * @param value - Quantity as typed by the operator, already validated
    */
-  const handleManualInput = (articleNumber: string) => {
-    onBarcodeScanned(articleNumber);
+  const handleBatchQuantity = (value: string) => {
+    countBatch(Number(value));
+  };
+
+  /**
+   * Counts the reviewed batch
+   * Its barcodes are marked as just read, so labels still in view are not
+   * captured again until they have been out of view for the cooldown window
+   * @param quantity - Number of units to count per barcode
+   */
+  const countBatch = (quantity: number) => {
+    const now = Date.now();
+    onBatchScanned?.(batch.map(read => ({ barcode: read.barcode, quantity })));
+    recentReadsRef.current = new Map(batch.map(read => [read.barcode, now]));
+    resetBatch();
+  };
+
+  /**
+   * Removes a barcode the operator does not want to count from the reviewed batch
+   * @param barcode - Barcode to remove
+   */
+  const removeFromBatch = (barcode: string) => {
+    const next = batch.filter(read => read.barcode !== barcode);
+    if (next.length === 0) {
+      resetBatch();
+      return;
+    }
+    setBatch(next);
+  };
+
+  /**
+   * Switches to the next scan mode and resumes scanning
+   * Batch mode is skipped when no batch callback was given
+   */
+  const toggleScanMode = () => {
+    const modes = (Object.keys(SCAN_MODE_LABELS) as ScanMode[]).filter(
+      mode => mode !== 'batch' || onBatchScanned
+    );
+    setScanMode(current => modes[(modes.indexOf(current) + 1) % modes.length]);
+    setConfirmedBarcode(null);
+    resetBatch();
+  };
+
+  /**
+   * Keeps track of the preview size for placing the batch boxes
+   */
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width: viewWidth, height: viewHeight } = event.nativeEvent.layout;
+    setViewSize({ width: viewWidth, height: viewHeight });
   };
 
   // Render message if camera permission is not granted
@@ -94,26 +465,94 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onBarcodeScanned, onClo
   }
 
   return (
-    <View style={styles.container}>
+    <View style={styles.container} onLayout={handleLayout}>
       {/* Camera component for barcode scanning */}
       <Camera
         style={StyleSheet.absoluteFill}
         device={device}
-        isActive={true}
+        isActive={!paused && confirmedBarcode === null && batchState !== 'review'} // Paused while a scan or batch is confirmed, or the parent prompts
         frameProcessor={frameProcessor}
         frameProcessorFps={5} // Process 5 frames per second to balance performance and accuracy
       />
       
       {/* Overlay with scan area indicator */}
       <View style={styles.overlay}>
-        <View style={styles.scanArea} />
+        <View style={[styles.scanArea, rejectedRead && styles.scanAreaRejected]} />
+        {rejectedRead && (
+          <View style={styles.rejectedContainer}>
+            <Text style={styles.rejectedText}>{REJECT_MESSAGES[rejectedRead.reason]}</Text>
+            <Text style={styles.rejectedBarcode}>{rejectedRead.barcode}</Text>
+          </View>
+        )}
+        {confirmedBarcode && (
+          <View style={styles.confirmedContainer}>
+            <Text style={styles.confirmedText}>Scanned</Text>
+            <Text style={styles.confirmedBarcode}>{confirmedBarcode}</Text>
+            <TouchableOpacity style={styles.nextButton} onPress={() => setConfirmedBarcode(null)}>
+              <Text style={styles.buttonText}>Scan Next</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
+
+      {/* Item, count and outcome of the most recent scan */}
+      <ScanFeedbackOverlay feedback={feedback} />
+
+      {/* Highlighted boxes of the barcodes collected in batch mode */}
+      {frameSize && viewSize && batch.map(read => {
+        if (!read.rect) return null;
+        const box = toViewRect(read.rect, frameSize, viewSize);
+        return (
+          <View
+            key={read.barcode}
+            pointerEvents="none"
+            style={[
+              styles.batchBox,
+              { left: box.left, top: box.top, width: box.right - box.left, height: box.bottom - box.top },
+            ]}
+          />
+        );
+      })}
+
+      {/* Review of a batch capture: remove single barcodes, then count or discard the batch */}
+      {scanMode === 'batch' && batch.length > 0 && (
+        <View style={styles.batchContainer}>
+          <Text style={styles.batchTitle}>
+            {batchState === 'review' ? `${batch.length} barcodes captured` : `Capturing... ${batch.length}`}
+          </Text>
+          <ScrollView style={styles.batchList}>
+            {batch.map(read => (
+              <View key={read.barcode} style={styles.batchRow}>
+                <Text style={styles.batchBarcode}>{read.barcode}</Text>
+                {batchState === 'review' && (
+                  <TouchableOpacity onPress={() => removeFromBatch(read.barcode)}>
+                    <Text style={styles.batchRemove}>Remove</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          </ScrollView>
+          {batchState === 'review' && (
+            <View style={styles.batchButtons}>
+              <TouchableOpacity style={styles.closeButton} onPress={resetBatch}>
+                <Text style={styles.buttonText}>Discard</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.manualButton} onPress={handleConfirmBatch}>
+                <Text style={styles.buttonText}>Count {batch.length}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
       
-      {/* Controls for closing the scanner and accessing manual input */}
+      {/* Controls for closing the scanner, switching the scan mode and accessing manual input */}
       <View style={styles.buttonContainer}>
         <TouchableOpacity style={styles.closeButton} onPress={onClose}>
           <Text style={styles.buttonText}>Close</Text>
         </TouchableOpacity>
+        <TouchableOpacity style={styles.modeButton} onPress={toggleScanMode}>
+          <Text style={styles.buttonText}>{SCAN_MODE_LABELS[scanMode]}</Text>
+        </TouchableOpacity>
         <TouchableOpacity 
           style={styles.manualButton}
           onPress={() => setShowManualInput(true)}
@@ -122,11 +561,46 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onBarcodeScanned, onClo
         </TouchableOpacity>
       </View>
 
+      {/* Multiplier presets applied to every camera scan */}
+      <View style={styles.multiplierContainer}>
+        {MULTIPLIER_PRESETS.map(preset => (
+          <TouchableOpacity
+            key={String(preset)}
+            style={[styles.multiplierButton, multiplier === preset && styles.multiplierButtonActive]}
+            onPress={() => setMultiplier(preset)}
+          >
+            <Text style={styles.buttonText}>{preset === 'ask' ? 'Ask' : `x${preset}`}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
       {/* Manual input modal for entering article numbers when barcodes can't be scanned */}
       <ManualInputModal
         visible={showManualInput}
         onClose={() => setShowManualInput(false)}
         onSubmit={handleManualInput}
+        initialQuantity={multiplier === 'ask' ? 1 : multiplier}
+      />
+
+      {/* Quantity prompt for barcodes scanned in 'ask' mode */}
+      <ManualInputModal
+        visible={pendingBarcode !== null}
+        onClose={() => setPendingBarcode(null)}
+        onSubmit={handleAskedQuantity}
+        initialArticleNumber={pendingBarcode || ''}
+      />
+
+      {/* Quantity prompt for batches counted in 'ask' mode, applied to every barcode */}
+      <TextPromptModal
+        visible={isBatchQuantityPromptVisible}
+        title="Units per Barcode"
+        message={`Quantity to count for each of the ${batch.length} barcodes`}
+        initialValue="1"
+        keyboardType="number-pad"
+        submitLabel="Count"
+        validate={validateBatchQuantity}
+        onClose={() => setBatchQuantityPromptVisible(false)}
+        onSubmit={handleBatchQuantity}
       />
     </View>
   );
@@ -168,6 +642,108 @@ const styles = StyleSheet.create({
     borderColor: '#FFF',
     backgroundColor: 'transparent',
   },
+  // Scan area while a rejected read is shown
+  scanAreaRejected: {
+    borderColor: '#FF5252',
+  },
+  // Message box for a rejected read below the scan area
+  rejectedContainer: {
+    marginTop: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    backgroundColor: 'rgba(255,82,82,0.9)',
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  // Reason of the rejection
+  rejectedText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  // The rejected barcode value
+  rejectedBarcode: {
+    color: '#FFF',
+    fontSize: 14,
+  },
+  // Confirmation box for a scan in single mode
+  confirmedContainer: {
+    marginTop: 20,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    backgroundColor: 'rgba(76,175,80,0.9)',
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  // Title of the confirmation
+  confirmedText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  // The counted barcode value
+  confirmedBarcode: {
+    color: '#FFF',
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  // Button that resumes scanning after a confirmed scan
+  nextButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 5,
+  },
+  // Highlight around a barcode collected in batch mode
+  batchBox: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: '#4CAF50',
+    backgroundColor: 'rgba(76,175,80,0.2)',
+  },
+  // Panel listing the barcodes of a batch above the multiplier presets
+  batchContainer: {
+    position: 'absolute',
+    bottom: 100,
+    left: 20,
+    right: 20,
+    padding: 12,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    borderRadius: 5,
+  },
+  // Number of captured barcodes
+  batchTitle: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  // Scrollable list of captured barcodes
+  batchList: {
+    maxHeight: 150,
+  },
+  // Single captured barcode
+  batchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  // Captured barcode value
+  batchBarcode: {
+    color: '#FFF',
+    fontSize: 14,
+  },
+  // Link that removes a barcode from the batch
+  batchRemove: {
+    color: '#FF5252',
+    fontSize: 14,
+  },
+  // Discard and count buttons of the batch
+  batchButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 10,
+  },
   // Container for action buttons
   buttonContainer: {
     position: 'absolute',
@@ -182,12 +758,39 @@ const styles = StyleSheet.create({
     borderRadius: 5,
     marginRight: 10,
   },
+  // Scan mode toggle styling
+  modeButton: {
+    padding: 10,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 5,
+    marginRight: 10,
+  },
   // Manual input button styling
   manualButton: {
     padding: 10,
     backgroundColor: 'rgba(33,150,243,0.8)',
     borderRadius: 5,
   },
+  // Row of multiplier presets at the bottom of the screen
+  multiplierContainer: {
+    position: 'absolute',
+    bottom: 40,
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  // Single multiplier preset
+  multiplierButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 5,
+  },
+  // Currently selected multiplier preset
+  multiplierButtonActive: {
+    backgroundColor: 'rgba(33,150,243,0.8)',
+  },
   // Text styling for buttons
   buttonText: {
     color: '#FFF',
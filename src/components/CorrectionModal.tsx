@@ -0,0 +1,237 @@
+/**
+ * CorrectionModal Component
+ *
+ * A modal dialog used to correct the scanned count of an item. The operator
+ * picks a reason for every correction so that the scan log shows why a
+ * count was changed. When a target quantity is required (e.g. "set counted
+ * quantity"), a numeric input is shown as well.
+ */
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+
+/**
+ * Reasons offered for a correction
+ */
+export const CORRECTION_REASONS = ['Double scan', 'Miscount', 'Damaged item', 'Recount'];
+
+/**
+ * Props for the CorrectionModal component
+ */
+interface CorrectionModalProps {
+  visible: boolean;            // Controls the visibility of the modal
+  title: string;               // Describes the correction, e.g. "Decrement 12345"
+  askQuantity?: boolean;       // Whether a target quantity must be entered
+  initialQuantity?: number;    // Value the quantity input starts with
+  onClose: () => void;         // Callback function when the modal is closed/cancelled
+  onSubmit: (reason: string, quantity?: number) => void; // Callback with the chosen reason and quantity
+}
+
+/**
+ * Modal component that asks for a correction reason and, optionally, a quantity
+ */
+const CorrectionModal: React.FC<CorrectionModalProps> = ({
+  visible,
+  title,
+  askQuantity = false,
+  initialQuantity = 0,
+  onClose,
+  onSubmit,
+}) => {
+  // Reason selected by the operator
+  const [reason, setReason] = useState<string | null>(null);
+  // Quantity input as typed
+  const [quantity, setQuantity] = useState('');
+
+  // Reset the form whenever the modal is opened
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setQuantity(String(initialQuantity));
+    }
+  }, [visible, initialQuantity]);
+
+  const parsedQuantity = Number(quantity);
+  const isQuantityValid = !askQuantity ||
+    (quantity.trim() !== '' && Number.isInteger(parsedQuantity) && parsedQuantity >= 0);
+  const canSubmit = reason !== null && isQuantityValid;
+
+  /**
+   * Submits the correction if a reason was chosen and the quantity is valid
+   */
+  const handleSubmit = () => {
+    if (!canSubmit || reason === null) return;
+    onSubmit(reason, askQuantity ? parsedQuantity : undefined);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose} // Handle Android back button
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.modalContainer}
+      >
+        <View style={styles.modalContent}>
+          <Text style={styles.title}>{title}</Text>
+          {askQuantity && (
+            <TextInput
+              style={styles.input}
+              value={quantity}
+              onChangeText={setQuantity}
+              placeholder="Counted quantity"
+              keyboardType="numeric"
+              selectTextOnFocus
+            />
+          )}
+          <Text style={styles.label}>Reason</Text>
+          <View style={styles.reasonContainer}>
+            {CORRECTION_REASONS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.reasonChip, reason === option && styles.reasonChipSelected]}
+                onPress={() => setReason(option)}
+              >
+                <Text style={[styles.reasonText, reason === option && styles.reasonTextSelected]}>
+                  {option}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onClose}
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.submitButton, !canSubmit && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={!canSubmit}
+            >
+              <Text style={styles.buttonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+/**
+ * Styles for the CorrectionModal component
+ */
+const styles = StyleSheet.create({
+  // Semi-transparent background for the modal
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  // Container for the actual modal content
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    width: '80%',
+    maxWidth: 400,
+  },
+  // Modal title styling
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  // Quantity input field styling
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 15,
+  },
+  // Label above the reason options
+  label: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 8,
+  },
+  // Wrapping row of reason options
+  reasonContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 20,
+  },
+  // Unselected reason option
+  reasonChip: {
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  // Selected reason option
+  reasonChipSelected: {
+    backgroundColor: '#2196F3',
+  },
+  // Reason option text
+  reasonText: {
+    fontSize: 14,
+    color: '#2196F3',
+  },
+  // Reason option text when selected
+  reasonTextSelected: {
+    color: 'white',
+  },
+  // Container for the action buttons
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  // Base button styling
+  button: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    marginHorizontal: 5,
+  },
+  // Cancel button specific styling (red color)
+  cancelButton: {
+    backgroundColor: '#ff6b6b',
+  },
+  // Apply button specific styling (blue color)
+  submitButton: {
+    backgroundColor: '#2196F3',
+  },
+  // Dimmed button while the form is incomplete
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  // Text inside buttons
+  buttonText: {
+    color: 'white',
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default CorrectionModal;
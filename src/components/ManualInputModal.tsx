@@ -4,9 +4,10 @@
  * A modal dialog that allows users to manually enter article/barcode numbers
  * when the scanner cannot read a barcode properly. This enhances the app's
  * usability by providing an alternative input method for damaged or poorly
- * printed barcodes.
+ * printed barcodes. A quantity can be entered with the article number so that
+ * a whole tray or case is counted in one step.
  */
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -17,6 +18,7 @@ import {
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
+import { MAX_SCAN_QUANTITY, isValidScanQuantity } from '../services/InventoryListService';
 
 /**
  * Props for the ManualInputModal component
@@ -24,7 +26,9 @@ import {
 interface ManualInputModalProps {
   visible: boolean;            // Controls the visibility of the modal
   onClose: () => void;         // Callback function when the modal is closed/cancelled
-  onSubmit: (articleNumber: string) => void; // Callback function when an article number is submitted
+  onSubmit: (articleNumber: string, quantity: number) => void; // Callback function when an article number is submitted
+  initialArticleNumber?: string; // Prefills the article number, e.g. with a barcode that was just scanned
+  initialQuantity?: number;    // Quantity the input starts with (defaults to 1)
 }
 
 /**
@@ -34,18 +38,35 @@ const ManualInputModal: React.FC<ManualInputModalProps> = ({
   visible,
   onClose,
   onSubmit,
+  initialArticleNumber = '',
+  initialQuantity = 1,
 }) => {
   // State to track the user input for article number
   const [articleNumber, setArticleNumber] = useState('');
+  // State to track the user input for quantity
+  const [quantity, setQuantity] = useState('1');
+
+  // Prefill the form whenever the modal is opened
+  useEffect(() => {
+    if (visible) {
+      setArticleNumber(initialArticleNumber);
+      setQuantity(String(initialQuantity));
+    }
+  }, [visible, initialArticleNumber, initialQuantity]);
+
+  const parsedQuantity = Number(quantity);
+  const isQuantityValid = quantity.trim() !== '' && isValidScanQuantity(parsedQuantity);
 
   /**
    * Handles the submission of the article number
-   * Validates that input is not empty before calling the onSubmit callback
+   * Validates that input is not empty and the quantity is within range
+   * before calling the onSubmit callback
    */
   const handleSubmit = () => {
-    if (articleNumber.trim()) {
-      onSubmit(articleNumber.trim());
-      setArticleNumber(''); // Reset the input field after submission
+    if (articleNumber.trim() && isQuantityValid) {
+      onSubmit(articleNumber.trim(), parsedQuantity);
+      setArticleNumber(''); // Reset the input fields after submission
+      setQuantity('1');
       onClose();
     }
   };
@@ -70,10 +91,25 @@ const ManualInputModal: React.FC<ManualInputModalProps> = ({
             onChangeText={setArticleNumber}
             placeholder="Enter article number"
             keyboardType="numeric" // Display numeric keyboard for article numbers
-            autoFocus              // Automatically focus the input when modal appears
+            autoFocus={!initialArticleNumber} // Automatically focus the input when modal appears
             returnKeyType="done"   // Show "done" button on keyboard
             onSubmitEditing={handleSubmit} // Allow submission via keyboard "done" button
           />
+          <Text style={styles.label}>Quantity</Text>
+          <TextInput
+            style={[styles.input, !isQuantityValid && styles.inputInvalid]}
+            value={quantity}
+            onChangeText={setQuantity}
+            placeholder="1"
+            keyboardType="numeric"
+            selectTextOnFocus      // Replace the default quantity with the first keystroke
+            autoFocus={!!initialArticleNumber} // Jump straight to the quantity for scanned barcodes
+            returnKeyType="done"
+            onSubmitEditing={handleSubmit}
+          />
+          {!isQuantityValid && (
+            <Text style={styles.errorText}>Enter a whole number from 1 to {MAX_SCAN_QUANTITY}</Text>
+          )}
           <View style={styles.buttonContainer}>
             {/* Cancel button to dismiss the modal */}
             <TouchableOpacity
@@ -131,6 +167,23 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: 20,
   },
+  // Label above the quantity input
+  label: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 6,
+  },
+  // Highlight for an out-of-range quantity
+  inputInvalid: {
+    borderColor: '#ff6b6b',
+  },
+  // Validation message below the quantity input
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    marginTop: -12,
+    marginBottom: 15,
+  },
   // Container for the action buttons
   buttonContainer: {
     flexDirection: 'row',
@@ -0,0 +1,163 @@
+/**
+ * OperatorBar Component
+ *
+ * A bar showing who is logged in, with a button to log in or switch operators
+ * by scanning a badge or entering a PIN. Shared devices are handed over by
+ * switching here; the inventory list and count session stay as they are.
+ * Nothing is shown while no operator list has been downloaded.
+ */
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  Alert,
+} from 'react-native';
+import { Operator, ScannerSettings } from '../types';
+import { OperatorService } from '../services/OperatorService';
+import BarcodeScanner from './BarcodeScanner';
+import TextPromptModal from './TextPromptModal';
+
+/**
+ * Scanner settings for badges, which commonly carry Code 128, Code 39 or 2D codes
+ * without check digits
+ */
+const BADGE_SCANNER_SETTINGS: ScannerSettings = {
+  symbologies: ['code128', 'code39', 'qr', 'datamatrix'],
+  validateCheckDigits: false,
+  scanMode: 'continuous',
+  cooldownMs: 1500,
+};
+
+/**
+ * Bar with the logged in operator and the login controls
+ */
+const OperatorBar: React.FC = () => {
+  // Operator logged in on the device
+  const [operator, setOperator] = useState<Operator | null>(null);
+  // Whether an operator list is available; the bar is hidden until then
+  const [isLoginRequired, setLoginRequired] = useState(false);
+  // Controls visibility of the badge scanner
+  const [isBadgeScannerVisible, setBadgeScannerVisible] = useState(false);
+  // Controls visibility of the PIN prompt
+  const [isPinPromptVisible, setPinPromptVisible] = useState(false);
+
+  // Load the operator list and follow operator changes made on other screens
+  useEffect(() => {
+    const service = OperatorService.getInstance();
+    service.loadOperators().then(() => setLoginRequired(service.isLoginRequired()));
+    return service.subscribe(setOperator);
+  }, []);
+
+  /**
+   * Logs in the operator of a scanned badge
+   */
+  const handleBadgeScan = async (badge: string) => {
+    setBadgeScannerVisible(false);
+    if (!(await OperatorService.getInstance().loginWithBadge(badge))) {
+      Alert.alert('Unknown Badge', 'This badge does not belong to an operator of this device');
+    }
+  };
+
+  /**
+   * Logs in the operator of an entered PIN
+   */
+  const handlePin = async (pin: string) => {
+    if (!(await OperatorService.getInstance().loginWithPin(pin))) {
+      Alert.alert('Wrong PIN', 'No operator with this PIN was found');
+    }
+  };
+
+  /**
+   * Offers the ways to log in, and logging out when someone is logged in
+   */
+  const handleSwitch = () => {
+    Alert.alert(operator ? 'Switch Operator' : 'Log In', 'Scan your badge or enter your PIN', [
+      { text: 'Cancel', style: 'cancel' },
+      ...(operator
+        ? [{ text: 'Log Out', onPress: () => OperatorService.getInstance().logout() }]
+        : []),
+      { text: 'Enter PIN', onPress: () => setPinPromptVisible(true) },
+      { text: 'Scan Badge', onPress: () => setBadgeScannerVisible(true) },
+    ]);
+  };
+
+  if (!isLoginRequired) return null;
+
+  return (
+    <View style={[styles.container, !operator && styles.containerLoggedOut]}>
+      <Text style={styles.operatorText}>
+        {operator ? `Operator: ${operator.name}` : 'Not logged in'}
+      </Text>
+      <TouchableOpacity style={styles.switchButton} onPress={handleSwitch}>
+        <Text style={styles.switchButtonText}>{operator ? 'Switch' : 'Log In'}</Text>
+      </TouchableOpacity>
+
+      {/* Camera scanner for the operator's badge */}
+      <Modal
+        visible={isBadgeScannerVisible}
+        animationType="slide"
+        onRequestClose={() => setBadgeScannerVisible(false)}
+      >
+        <BarcodeScanner
+          onBarcodeScanned={handleBadgeScan}
+          onClose={() => setBadgeScannerVisible(false)}
+          settings={BADGE_SCANNER_SETTINGS}
+        />
+      </Modal>
+
+      {/* PIN entry for operators without their badge */}
+      <TextPromptModal
+        visible={isPinPromptVisible}
+        title="Enter PIN"
+        keyboardType="number-pad"
+        secureTextEntry
+        submitLabel="Log In"
+        onClose={() => setPinPromptVisible(false)}
+        onSubmit={handlePin}
+      />
+    </View>
+  );
+};
+
+/**
+ * Styles for the OperatorBar component
+ */
+const styles = StyleSheet.create({
+  // Bar below the screen header
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 15,
+    backgroundColor: '#E8F5E9',
+  },
+  // Highlights the bar while nobody is logged in
+  containerLoggedOut: {
+    backgroundColor: '#FFEBEE',
+  },
+  // Name of the logged in operator
+  operatorText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  // Log in / switch operator button
+  switchButton: {
+    backgroundColor: '#2196F3',
+    paddingHorizontal: 15,
+    paddingVertical: 6,
+    borderRadius: 4,
+  },
+  // Log in / switch operator button text
+  switchButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
+
+export default OperatorBar;
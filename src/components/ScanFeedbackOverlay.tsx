@@ -0,0 +1,129 @@
+/**
+ * ScanFeedbackOverlay Component
+ *
+ * A panel on top of the camera preview that shows the outcome of the most
+ * recent scan: the matched item with its image, description and
+ * scanned/expected count (only the scanned count in blind counts), or why
+ * the scan was not counted. Every new feedback also plays its vibration
+ * pattern, so the operator can keep scanning without closing the scanner.
+ */
+import React, { useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  Image,
+} from 'react-native';
+import { ScanFeedback, ScanFeedbackKind } from '../types';
+import { FeedbackService } from '../services/FeedbackService';
+
+/**
+ * Props for the ScanFeedbackOverlay component
+ */
+interface ScanFeedbackOverlayProps {
+  feedback: ScanFeedback | null; // Feedback of the most recent scan; nothing is shown while null
+}
+
+/**
+ * Accent color per feedback kind
+ */
+const KIND_COLORS: Record<ScanFeedbackKind, string> = {
+  success: '#4CAF50',
+  over_count: '#FF9800',
+  unknown: '#2196F3',
+  rejected: '#FF5252',
+};
+
+/**
+ * Panel with the feedback of the most recent scan
+ */
+const ScanFeedbackOverlay: React.FC<ScanFeedbackOverlayProps> = ({ feedback }) => {
+  // Play the vibration once for every new scan
+  useEffect(() => {
+    if (feedback) {
+      FeedbackService.getInstance().play(feedback.kind);
+    }
+  }, [feedback?.id]);
+
+  if (!feedback) return null;
+
+  const { item } = feedback;
+  return (
+    <View style={[styles.container, { borderLeftColor: KIND_COLORS[feedback.kind] }]} pointerEvents="none">
+      {item && (
+        <Image
+          source={{ uri: `asset:/images/${item.imagePath}.jpg` }}
+          style={styles.thumbnail}
+          resizeMode="cover"
+        />
+      )}
+      <View style={styles.details}>
+        <Text style={[styles.title, { color: KIND_COLORS[feedback.kind] }]}>{feedback.title}</Text>
+        <Text style={styles.description} numberOfLines={2}>
+          {item ? item.description : feedback.barcode}
+        </Text>
+        {item && feedback.scannedQuantity !== undefined && (
+          <Text style={styles.count}>
+            {feedback.blind ? feedback.scannedQuantity : `${feedback.scannedQuantity} / ${item.expectedQuantity}`}
+          </Text>
+        )}
+        {feedback.message ? <Text style={styles.message}>{feedback.message}</Text> : null}
+      </View>
+    </View>
+  );
+};
+
+/**
+ * Styles for the ScanFeedbackOverlay component
+ */
+const styles = StyleSheet.create({
+  // Panel below the top buttons, colored by feedback kind on the left
+  container: {
+    position: 'absolute',
+    top: 100,
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    padding: 10,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    borderRadius: 5,
+    borderLeftWidth: 6,
+  },
+  // Image of the matched item
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 4,
+    marginRight: 10,
+  },
+  // Text column next to the image
+  details: {
+    flex: 1,
+  },
+  // Headline, e.g. "Counted"
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  // Item description, or the barcode when no item matched
+  description: {
+    color: '#FFF',
+    fontSize: 14,
+    marginTop: 2,
+  },
+  // Scanned and expected quantity of the item
+  count: {
+    color: '#FFF',
+    fontSize: 20,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  // Explanation for unknown and rejected scans
+  message: {
+    color: '#DDD',
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
+
+export default ScanFeedbackOverlay;
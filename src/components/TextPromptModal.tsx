@@ -0,0 +1,208 @@
+/**
+ * TextPromptModal Component
+ *
+ * A small modal dialog that asks the operator for a single line of text,
+ * e.g. a description for an unexpected item. Android has no built-in text
+ * prompt (Alert.prompt is iOS only), so this fills that gap.
+ */
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+  KeyboardTypeOptions,
+} from 'react-native';
+
+/**
+ * Props for the TextPromptModal component
+ */
+interface TextPromptModalProps {
+  visible: boolean;            // Controls the visibility of the modal
+  title: string;               // Question shown at the top of the dialog
+  message?: string;            // Optional explanation below the title
+  placeholder?: string;        // Placeholder of the text input
+  initialValue?: string;       // Value the input starts with
+  keyboardType?: KeyboardTypeOptions; // Keyboard to show for the input
+  allowEmpty?: boolean;        // Whether an empty value may be submitted
+  secureTextEntry?: boolean;   // Hides the typed characters, e.g. for PINs
+  submitLabel?: string;        // Label of the submit button
+  validate?: (value: string) => string | null; // Why the trimmed value cannot be submitted, or null if it can
+  onClose: () => void;         // Callback function when the modal is closed/cancelled
+  onSubmit: (value: string) => void; // Callback function with the trimmed value
+}
+
+/**
+ * Modal component that prompts for a single text value
+ */
+const TextPromptModal: React.FC<TextPromptModalProps> = ({
+  visible,
+  title,
+  message,
+  placeholder,
+  initialValue = '',
+  keyboardType = 'default',
+  allowEmpty = false,
+  secureTextEntry = false,
+  submitLabel = 'Save',
+  validate,
+  onClose,
+  onSubmit,
+}) => {
+  // State to track the user input
+  const [value, setValue] = useState('');
+
+  // Prefill the input whenever the modal is opened
+  useEffect(() => {
+    if (visible) {
+      setValue(initialValue);
+    }
+  }, [visible, initialValue]);
+
+  // Validation message for the current value; the dialog stays open while there is one
+  const error = validate ? validate(value.trim()) : null;
+
+  /**
+   * Submits the trimmed value unless it is empty and empty values are not allowed,
+   * or it fails validation
+   */
+  const handleSubmit = () => {
+    if (!allowEmpty && !value.trim()) return;
+    if (error) return;
+    onSubmit(value.trim());
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose} // Handle Android back button
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.modalContainer}
+      >
+        <View style={styles.modalContent}>
+          <Text style={styles.title}>{title}</Text>
+          {message ? <Text style={styles.message}>{message}</Text> : null}
+          <TextInput
+            style={[styles.input, error !== null && styles.inputInvalid]}
+            value={value}
+            onChangeText={setValue}
+            placeholder={placeholder}
+            keyboardType={keyboardType}
+            secureTextEntry={secureTextEntry}
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={handleSubmit}
+          />
+          {error !== null && <Text style={styles.errorText}>{error}</Text>}
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onClose}
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.submitButton]}
+              onPress={handleSubmit}
+            >
+              <Text style={styles.buttonText}>{submitLabel}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+/**
+ * Styles for the TextPromptModal component
+ */
+const styles = StyleSheet.create({
+  // Semi-transparent background for the modal
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  // Container for the actual modal content
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    width: '80%',
+    maxWidth: 400,
+  },
+  // Modal title styling
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  // Explanation below the title
+  message: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  // Text input field styling
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 20,
+  },
+  // Highlight for a value that fails validation
+  inputInvalid: {
+    borderColor: '#ff6b6b',
+  },
+  // Validation message below the input
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    marginTop: -12,
+    marginBottom: 15,
+  },
+  // Container for the action buttons
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  // Base button styling
+  button: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    marginHorizontal: 5,
+  },
+  // Cancel button specific styling (red color)
+  cancelButton: {
+    backgroundColor: '#ff6b6b',
+  },
+  // Save button specific styling (blue color)
+  submitButton: {
+    backgroundColor: '#2196F3',
+  },
+  // Text inside buttons
+  buttonText: {
+    color: 'white',
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default TextPromptModal;
@@ -0,0 +1,425 @@
+/**
+ * ImportListScreen Component
+ *
+ * Imports an inventory list from a CSV file exported by the ERP. The operator
+ * picks a file, checks which column holds which field, names the list and
+ * reviews a preview in which rows with missing article numbers, duplicates or
+ * invalid quantities are highlighted. Only valid rows are saved. The ID of a
+ * downloaded list or of a list being counted cannot be reused; replacing an
+ * earlier import is confirmed first.
+ */
+import React, { useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  StatusBar,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { ImportService, ListIdStatus, PickedCsvFile } from '../services/ImportService';
+import { CsvColumnMapping, ImportRow } from '../types';
+import {
+  buildImportPreview,
+  guessColumnMapping,
+  isCompleteMapping,
+  IMPORT_ISSUE_LABELS,
+  REQUIRED_IMPORT_FIELDS,
+} from '../utils/csvImport';
+
+/**
+ * Labels of the fields a column can be mapped to
+ */
+const FIELD_LABELS: Record<keyof CsvColumnMapping, string> = {
+  articleNumber: 'Article Number',
+  description: 'Description',
+  expectedQuantity: 'Expected Quantity',
+  imagePath: 'Image',
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as Array<keyof CsvColumnMapping>;
+
+/**
+ * Derives a list ID from a file name, e.g. "Stock List A.csv" -> "stock-list-a"
+ */
+function toListId(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]*$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+const ImportListScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const [file, setFile] = useState<PickedCsvFile | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [listName, setListName] = useState('');
+  const [listId, setListId] = useState('');
+  const [isSaving, setSaving] = useState(false);
+
+  const preview = useMemo(
+    () => (file && mapping ? buildImportPreview(file.rows, mapping) : null),
+    [file, mapping]
+  );
+
+  /**
+   * Opens the file picker and guesses the column mapping from the header row
+   */
+  const handlePickFile = async () => {
+    try {
+      const picked = await ImportService.getInstance().pickCsvFile();
+      if (!picked) return;
+      if (picked.rows.length < 2) {
+        Alert.alert('Empty File', 'The file needs a header row and at least one item.');
+        return;
+      }
+      setFile(picked);
+      setMapping(guessColumnMapping(picked.rows[0]));
+      setListName(picked.fileName.replace(/\.[^.]*$/, ''));
+      setListId(toListId(picked.fileName));
+    } catch (error) {
+      Alert.alert('Error', 'The file could not be read');
+    }
+  };
+
+  /**
+   * Maps a field to a column, or removes the mapping when the column is selected again
+   */
+  const handleSelectColumn = (field: keyof CsvColumnMapping, column: number) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: mapping[field] === column ? null : column });
+  };
+
+  /**
+   * Saves the valid rows as a new inventory list
+   *
+   * @param replace - Whether to replace an earlier import with the same ID
+   */
+  const saveList = async (replace: boolean) => {
+    if (!preview) return;
+    setSaving(true);
+    try {
+      await ImportService.getInstance().saveImportedList(
+        {
+          id: listId.trim(),
+          name: listName.trim(),
+          description: `Imported from ${file?.fileName}`,
+        },
+        preview.validItems,
+        replace
+      );
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save the imported list');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Checks the entered details and the list ID, then saves the list
+   */
+  const handleConfirm = async () => {
+    if (!preview || !listId.trim() || !listName.trim()) {
+      Alert.alert('Missing Details', 'Please enter a name and an ID for the list.');
+      return;
+    }
+    let status: ListIdStatus;
+    try {
+      status = await ImportService.getInstance().getListIdStatus(listId.trim());
+    } catch (error) {
+      Alert.alert('Error', 'Failed to check whether the list ID is in use');
+      return;
+    }
+    switch (status) {
+      case 'available':
+        saveList(false);
+        break;
+      case 'replaceable':
+        Alert.alert(
+          'Replace List?',
+          `An imported list with ID ${listId.trim()} already exists. Replace it with this import?`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Replace', style: 'destructive', onPress: () => saveList(true) },
+          ]
+        );
+        break;
+      case 'taken':
+        Alert.alert(
+          'List ID in Use',
+          `The ID ${listId.trim()} belongs to a downloaded list or a list being counted. Please choose another ID.`
+        );
+        break;
+    }
+  };
+
+  /**
+   * Asks for confirmation when rows will be skipped
+   */
+  const handleConfirmPress = () => {
+    if (!preview) return;
+    if (preview.invalidRowCount === 0) {
+      handleConfirm();
+      return;
+    }
+    Alert.alert(
+      'Skip Invalid Rows?',
+      `${preview.invalidRowCount} rows have problems and will not be imported.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Import', onPress: handleConfirm },
+      ]
+    );
+  };
+
+  const renderRow = ({ item }: { item: ImportRow }) => (
+    <View style={[styles.rowContainer, item.issues.length > 0 && styles.rowInvalid]}>
+      <Text style={styles.rowNumber}>Row {item.rowNumber}</Text>
+      <Text style={styles.rowArticle}>{item.item.articleNumber || '-'}</Text>
+      <Text style={styles.rowDescription}>{item.item.description}</Text>
+      <Text style={styles.rowQuantity}>Expected: {item.item.expectedQuantity}</Text>
+      {item.issues.map(issue => (
+        <Text key={issue} style={styles.issueText}>{IMPORT_ISSUE_LABELS[issue]}</Text>
+      ))}
+    </View>
+  );
+
+  if (!file || !mapping || !preview) {
+    return (
+      <View style={styles.container}>
+        <StatusBar backgroundColor="#2196F3" barStyle="light-content" />
+        <Text style={styles.header}>Import List</Text>
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Choose a CSV file with one item per row</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={handlePickFile}>
+            <Text style={styles.buttonText}>Choose File</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const canImport = isCompleteMapping(mapping) && preview.validItems.length > 0 && !isSaving;
+
+  return (
+    <View style={styles.container}>
+      <StatusBar backgroundColor="#2196F3" barStyle="light-content" />
+      <Text style={styles.header}>Import List</Text>
+
+      <View style={styles.section}>
+        <TextInput
+          style={styles.input}
+          value={listName}
+          onChangeText={setListName}
+          placeholder="List name"
+        />
+        <TextInput
+          style={styles.input}
+          value={listId}
+          onChangeText={setListId}
+          placeholder="List ID"
+          autoCapitalize="none"
+        />
+      </View>
+
+      {/* One row of column chips per field */}
+      <View style={styles.section}>
+        {FIELDS.map(field => (
+          <View key={field} style={styles.mappingRow}>
+            <Text style={styles.mappingLabel}>
+              {FIELD_LABELS[field]}{REQUIRED_IMPORT_FIELDS.includes(field) ? ' *' : ''}
+            </Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {preview.headers.map((header, column) => (
+                <TouchableOpacity
+                  key={column}
+                  style={[styles.chip, mapping[field] === column && styles.chipActive]}
+                  onPress={() => handleSelectColumn(field, column)}
+                >
+                  <Text style={[styles.chipText, mapping[field] === column && styles.chipTextActive]}>
+                    {header || `Column ${column + 1}`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.summaryText}>
+        {isCompleteMapping(mapping)
+          ? `${preview.validItems.length} items to import, ${preview.invalidRowCount} rows with problems`
+          : 'Select the article number and quantity columns'}
+      </Text>
+
+      <FlatList
+        data={preview.rows}
+        renderItem={renderRow}
+        keyExtractor={(item) => String(item.rowNumber)}
+        contentContainerStyle={styles.listContainer}
+      />
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handlePickFile}>
+          <Text style={styles.buttonText}>Other File</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, styles.footerButton, !canImport && styles.buttonDisabled]}
+          onPress={handleConfirmPress}
+          disabled={!canImport}
+        >
+          <Text style={styles.buttonText}>{isSaving ? 'Importing...' : 'Import'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    fontSize: 24,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginVertical: 20,
+    color: '#2196F3',
+  },
+  section: {
+    marginHorizontal: 15,
+    marginBottom: 10,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  mappingRow: {
+    marginBottom: 8,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: '#2196F3',
+    borderColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+    marginHorizontal: 15,
+  },
+  listContainer: {
+    padding: 15,
+  },
+  rowContainer: {
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 10,
+    elevation: 2,
+  },
+  rowInvalid: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF5252',
+  },
+  rowNumber: {
+    fontSize: 12,
+    color: '#999999',
+  },
+  rowArticle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  rowDescription: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  rowQuantity: {
+    fontSize: 14,
+    color: '#2196F3',
+  },
+  issueText: {
+    fontSize: 14,
+    color: '#FF5252',
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  footer: {
+    flexDirection: 'row',
+    margin: 15,
+  },
+  footerButton: {
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: '#4CAF50',
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+    elevation: 2,
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: '#2196F3',
+    padding: 15,
+    marginRight: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    elevation: 2,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ImportListScreen;
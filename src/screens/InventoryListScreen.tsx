@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -6,17 +6,46 @@ import {
   FlatList,
   TouchableOpacity,
   StatusBar,
+  Alert,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
-import InventoryListService, { InventoryList } from '../services/InventoryListService';
+import { InventoryListService } from '../services/InventoryListService';
+import { SyncService } from '../services/SyncService';
+import { OperatorService } from '../services/OperatorService';
+import OperatorBar from '../components/OperatorBar';
+import { InventoryList, OutboxStatus } from '../types';
 
 const InventoryListScreen: React.FC = () => {
   const navigation = useNavigation();
-  const inventoryLists = InventoryListService.getAllLists();
+  const [inventoryLists, setInventoryLists] = useState<InventoryList[]>([]);
+  const [outboxStatus, setOutboxStatus] = useState<OutboxStatus | null>(null);
 
-  const handleListSelect = (list: InventoryList) => {
-    InventoryListService.setCurrentList(list.id);
-    navigation.navigate('Inventory' as never);
+  useEffect(() => {
+    return SyncService.getInstance().subscribe(setOutboxStatus);
+  }, []);
+
+  // Reload whenever the screen is shown, so lists imported meanwhile appear
+  useEffect(() => {
+    const loadLists = () => {
+      InventoryListService.getInstance().loadInventoryLists().then(setInventoryLists);
+    };
+    loadLists();
+    return navigation.addListener('focus', loadLists);
+  }, [navigation]);
+
+  const handleListSelect = async (list: InventoryList) => {
+    const operators = OperatorService.getInstance();
+    await operators.ensureLoaded();
+    if (operators.isLoginRequired() && !operators.getCurrentOperator()) {
+      Alert.alert('Log In Required', 'Scan your badge or enter your PIN before counting');
+      return;
+    }
+    try {
+      await InventoryListService.getInstance().setCurrentList(list.id);
+      navigation.navigate('Inventory' as never);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load the count of this list');
+    }
   };
 
   const renderItem = ({ item }: { item: InventoryList }) => (
@@ -28,9 +57,18 @@ const InventoryListScreen: React.FC = () => {
       <View>
         <Text style={styles.listName}>{item.name}</Text>
         <Text style={styles.listDescription}>{item.description}</Text>
-        <Text style={styles.itemCount}>
-          {item.items.length} items to check
-        </Text>
+        <View style={styles.listFooter}>
+          <Text style={styles.itemCount}>
+            {item.items.length} items to check
+          </Text>
+          <TouchableOpacity
+            onPress={() =>
+              navigation.navigate('SessionHistory' as never, { listId: item.id, listName: item.name } as never)
+            }
+          >
+            <Text style={styles.historyText}>History</Text>
+          </TouchableOpacity>
+        </View>
       </View>
     </TouchableOpacity>
   );
@@ -39,6 +77,26 @@ const InventoryListScreen: React.FC = () => {
     <View style={styles.container}>
       <StatusBar backgroundColor="#2196F3" barStyle="light-content" />
       <Text style={styles.header}>Select Inventory List</Text>
+      <OperatorBar />
+      <TouchableOpacity
+        style={styles.importButton}
+        onPress={() => navigation.navigate('ImportList' as never)}
+      >
+        <Text style={styles.importButtonText}>Import CSV</Text>
+      </TouchableOpacity>
+      {outboxStatus && (outboxStatus.pending > 0 || outboxStatus.failed > 0) && (
+        <View style={styles.syncStatus}>
+          <Text style={styles.syncStatusText}>
+            {outboxStatus.isDraining ? 'Syncing... ' : ''}
+            {outboxStatus.pending} pending, {outboxStatus.failed} failed
+          </Text>
+          {outboxStatus.failed > 0 && (
+            <TouchableOpacity onPress={() => SyncService.getInstance().retryFailed()}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
       <FlatList
         data={inventoryLists}
         renderItem={renderItem}
@@ -61,6 +119,35 @@ const styles = StyleSheet.create({
     marginVertical: 20,
     color: '#2196F3',
   },
+  importButton: {
+    alignSelf: 'flex-end',
+    marginHorizontal: 15,
+    marginBottom: 10,
+  },
+  importButtonText: {
+    fontSize: 14,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  syncStatus: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFF3E0',
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+    marginHorizontal: 15,
+    borderRadius: 8,
+  },
+  syncStatusText: {
+    fontSize: 14,
+    color: '#E65100',
+  },
+  retryText: {
+    fontSize: 14,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
   listContainer: {
     padding: 15,
   },
@@ -82,11 +169,21 @@ const styles = StyleSheet.create({
     color: '#666666',
     marginBottom: 10,
   },
+  listFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   itemCount: {
     fontSize: 14,
     color: '#2196F3',
     fontWeight: '500',
   },
+  historyText: {
+    fontSize: 14,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
 });
 
 export default InventoryListScreen; 
\ No newline at end of file
@@ -3,18 +3,25 @@
  * 
  * The main inventory scanning screen that allows users to:
  * - View expected inventory items
- * - Scan barcodes using the camera
+ * - Search items by article number or description, filter them by counting progress and sort them
+ * - Scan barcodes using the camera, one at a time or every label in view as a batch
  * - Enter article numbers manually for unreadable barcodes
  * - Track scanning progress
+ * - Undo, decrement or set the counted quantity of an item, with a reason
+ * - Record unexpected items that are not on the list, with an optional description
+ * - Count by location on lists with bins: a scanned location label sets the current bin
+ * - Count blind: expected quantities and completion stay hidden until the report
+ * - Pause the count session, or complete it and freeze its report
  * - Generate reports of missing items
  * 
  * This screen serves as the primary interface for conducting inventory checks.
  */
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   StyleSheet,
   View,
   Text,
+  TextInput,
   FlatList,
   TouchableOpacity,
   Image,
@@ -23,8 +30,25 @@ import {
   Alert,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
-import { InventoryListService, ExpectedItem } from '../services/InventoryListService';
+import { InventoryListService } from '../services/InventoryListService';
+import { OperatorService } from '../services/OperatorService';
+import {
+  BatchScan,
+  ExpectedItem,
+  ItemProgress,
+  ItemSortKey,
+  ScanFeedback,
+  ScannerSettings,
+  ScanResultStatus,
+  ScanSource,
+  StorageLocation,
+} from '../types';
+import { getScanFeedback } from '../utils/scanFeedback';
+import { formatLocation } from '../utils/locations';
 import BarcodeScanner from '../components/BarcodeScanner';
+import CorrectionModal from '../components/CorrectionModal';
+import TextPromptModal from '../components/TextPromptModal';
+import OperatorBar from '../components/OperatorBar';
 
 /**
  * Interface to track scanned item quantities by article number
@@ -33,6 +57,45 @@ interface ScannedItems {
   [key: string]: number; // Maps article numbers to their scanned quantities
 }
 
+/**
+ * Correction the operator is currently entering a reason for
+ */
+interface PendingCorrection {
+  type: 'undo' | 'decrement' | 'set'; // Which correction action was chosen
+  item: ExpectedItem | null;          // Item to correct, null for undoing the last scan
+}
+
+/**
+ * Scan of a serialized item waiting for the operator to enter its serial number
+ */
+interface PendingSerialScan {
+  barcode: string;     // Barcode as it was read or entered
+  quantity: number;    // Quantity the scan was made with
+  source: ScanSource;  // How the barcode was entered
+  item: ExpectedItem;  // Serialized item the barcode belongs to
+}
+
+/**
+ * Progress filters offered above the list; blind counts offer none
+ */
+const PROGRESS_FILTERS: Array<{ key: ItemProgress | null; label: string }> = [
+  { key: null, label: 'All' },
+  { key: 'not_started', label: 'Not Started' },
+  { key: 'partial', label: 'Partial' },
+  { key: 'complete', label: 'Complete' },
+  { key: 'over_counted', label: 'Over' },
+];
+
+/**
+ * Sort orders offered above the list; no key keeps the order of the list
+ */
+const SORT_OPTIONS: Array<{ key: ItemSortKey | null; label: string }> = [
+  { key: null, label: 'List' },
+  { key: 'articleNumber', label: 'Article' },
+  { key: 'description', label: 'Description' },
+  { key: 'remaining', label: 'Remaining' },
+];
+
 /**
  * Main inventory screen component for scanning and tracking inventory items
  */
@@ -42,16 +105,53 @@ const InventoryScreen: React.FC = () => {
   const [expectedItems, setExpectedItems] = useState<ExpectedItem[]>([]);
   // Record of items that have been scanned and their quantities
   const [scannedItems, setScannedItems] = useState<ScannedItems>({});
+  // Whether the list is counted by location
+  const [hasLocations, setHasLocations] = useState(false);
+  // Whether expected quantities are hidden until the report
+  const [isBlindCount, setBlindCount] = useState(false);
+  // Location scans are counted against, and the quantities scanned there
+  const [currentLocation, setCurrentLocation] = useState<StorageLocation | null>(null);
+  const [locationCounts, setLocationCounts] = useState<ScannedItems>({});
+  // Quantities scanned by all devices counting the list, and how many other devices contributed
+  const [combinedCounts, setCombinedCounts] = useState<ScannedItems>({});
+  const [otherDeviceCount, setOtherDeviceCount] = useState(0);
+  // True while the other devices' counts are being downloaded
+  const [isRefreshingTeam, setRefreshingTeam] = useState(false);
+  // Symbologies and check-digit validation for the current list
+  const [scannerSettings, setScannerSettings] = useState<ScannerSettings | undefined>(undefined);
   // Controls visibility of the barcode scanner
   const [isScannerVisible, setScannerVisible] = useState(false);
   // Currently selected/viewed item
   const [selectedItem, setSelectedItem] = useState<ExpectedItem | null>(null);
+  // Correction waiting for a reason, shown in the correction modal
+  const [pendingCorrection, setPendingCorrection] = useState<PendingCorrection | null>(null);
+  // Unexpected barcode the operator is entering a description for
+  const [describingBarcode, setDescribingBarcode] = useState<string | null>(null);
+  // Serialized item scan the operator is entering a serial number for
+  const [serialScan, setSerialScan] = useState<PendingSerialScan | null>(null);
+  // Outcome of the most recent scan, shown in the scanner overlay
+  const [scanFeedback, setScanFeedback] = useState<ScanFeedback | null>(null);
+  // Search text, progress filter and sort order applied to the list
+  const [searchText, setSearchText] = useState('');
+  const [progressFilter, setProgressFilter] = useState<ItemProgress | null>(null);
+  const [sortKey, setSortKey] = useState<ItemSortKey | null>(null);
+
+  // Items matching the search and filter; recomputed whenever the counts change
+  const visibleItems = useMemo(
+    () => InventoryListService.getInstance().getItems({
+      search: searchText,
+      progress: progressFilter || undefined,
+      sortBy: sortKey || undefined,
+    }),
+    [expectedItems, combinedCounts, searchText, progressFilter, sortKey]
+  );
 
   /**
    * Load expected inventory items when the component mounts
    */
   useEffect(() => {
     loadExpectedItems();
+    refreshTeamCounts(false);
   }, []);
 
   /**
@@ -59,34 +159,115 @@ const InventoryScreen: React.FC = () => {
    */
   const loadExpectedItems = async () => {
     try {
-      const items = await InventoryListService.getInstance().getExpectedItems();
-      setExpectedItems(items);
+      const service = InventoryListService.getInstance();
+      setExpectedItems(service.getCurrentList()?.items || []);
+      setHasLocations((service.getCurrentList()?.locations || []).length > 0);
+      setBlindCount(service.isBlindCount());
+      refreshCounts();
+      setScannerSettings(await service.getScannerSettings());
     } catch (error) {
       Alert.alert('Error', 'Failed to load inventory items');
     }
   };
 
+  /**
+   * Refreshes the counts and the current location from the service's scan log
+   */
+  const refreshCounts = () => {
+    const service = InventoryListService.getInstance();
+    setScannedItems(Object.fromEntries(service.getScannedItems()));
+    setCurrentLocation(service.getCurrentLocation());
+    setLocationCounts(Object.fromEntries(service.getCurrentLocationCounts()));
+    setCombinedCounts(Object.fromEntries(service.getCombinedCounts()));
+    setOtherDeviceCount(service.getOtherDeviceCounts().length);
+  };
+
+  /**
+   * Downloads the counts of the other devices counting the list
+   *
+   * @param reportErrors - Whether to tell the operator when the download fails;
+   *                       the automatic refresh on open stays silent while offline
+   */
+  const refreshTeamCounts = async (reportErrors: boolean) => {
+    setRefreshingTeam(true);
+    const result = await InventoryListService.getInstance().refreshPartialCounts();
+    setRefreshingTeam(false);
+    if (result.ok) {
+      refreshCounts();
+    } else if (reportErrors) {
+      Alert.alert('Refresh Failed', result.error.message);
+    }
+  };
+
   /**
    * Handles a barcode scan event from the scanner
-   * Validates the scanned barcode against expected items and updates counts
+   * Records the scan in the service and refreshes the counts derived from the scan log
    * 
    * @param barcode - The scanned barcode or manually entered article number
+   * @param quantity - Number of units the scan represents
+   * @param source - Whether the barcode came from the camera or manual input
+   * @param serial - Serial number typed in for a serialized item
    */
-  const handleBarcodeScan = async (barcode: string) => {
+  const handleBarcodeScan = async (barcode: string, quantity: number, source: ScanSource, serial?: string) => {
     try {
-      // Look up the item using the barcode/article number
-      const item = await InventoryListService.getInstance().findItemByArticleNumber(barcode);
-      if (item) {
-        // Update the scanned count for this item
-        setScannedItems(prev => ({
-          ...prev,
-          [item.articleNumber]: (prev[item.articleNumber] || 0) + 1
-        }));
-        // Set as the currently selected item (for UI highlighting)
-        setSelectedItem(item);
-      } else {
-        // If the barcode doesn't match any expected item
-        Alert.alert('Not Found', 'This item is not in the expected inventory');
+      const service = InventoryListService.getInstance();
+      const result = await service.scanItem(barcode, quantity, source, serial);
+      setScanFeedback(getScanFeedback(barcode, result, service.isBlindCount()));
+      switch (result.status) {
+        case 'counted':
+          // Update the scanned counts from the service's scan log
+          refreshCounts();
+          // Set as the currently selected item (for UI highlighting)
+          setSelectedItem(result.item || null);
+          break;
+        case 'unexpected': {
+          // The barcode is not on the list; it was kept as an unexpected item,
+          // under the GTIN for GS1 barcodes
+          const unexpectedBarcode = result.unexpectedItem?.barcode || barcode;
+          Alert.alert(
+            'Unexpected Item',
+            `${unexpectedBarcode} is not in the expected inventory and was recorded as an unexpected item.`,
+            [
+              { text: 'Add Description', onPress: () => setDescribingBarcode(unexpectedBarcode) },
+              { text: 'OK' },
+            ]
+          );
+          break;
+        }
+        case 'location_set':
+          // Later scans count against the new location
+          refreshCounts();
+          break;
+        case 'location_required':
+          Alert.alert('Scan a Location', 'Scan the label of the location you are counting before scanning items');
+          break;
+        case 'serial_required':
+          // The barcode carries no serial number, so ask for the one on the label
+          setSerialScan({ barcode, quantity, source, item: result.item! });
+          break;
+        case 'duplicate_serial':
+          Alert.alert(
+            'Duplicate Serial Number',
+            `Serial number ${result.serial} of ${result.item?.articleNumber} was already counted`
+          );
+          break;
+        case 'invalid_quantity':
+          Alert.alert(
+            'Invalid Quantity',
+            result.item?.serialized
+              ? `${result.item.articleNumber} is serialized and must be scanned one unit at a time`
+              : `${quantity} is not a valid quantity for a single scan`
+          );
+          break;
+        case 'operator_required':
+          Alert.alert('Log In Required', 'Scan your badge or enter your PIN before counting');
+          break;
+        case 'session_closed':
+          Alert.alert('Count Closed', 'This count is paused or completed and accepts no more scans');
+          break;
+        case 'no_list':
+          Alert.alert('Error', 'No inventory list selected');
+          break;
       }
     } catch (error) {
       Alert.alert('Error', 'Failed to process scanned item');
@@ -94,34 +275,240 @@ const InventoryScreen: React.FC = () => {
   };
 
   /**
-   * Completes the inventory process and navigates to the missing items screen
-   * Generates a report of items that are missing or have quantity discrepancies
+   * Handles a batch of barcodes captured together by the scanner
+   * Records the whole batch in the service and summarizes the outcome
+   * 
+   * @param scans - The confirmed barcodes with their quantities
+   */
+  const handleBatchScan = async (scans: BatchScan[]) => {
+    try {
+      const service = InventoryListService.getInstance();
+      const results = await service.scanBatch(scans, 'camera');
+      refreshCounts();
+
+      const barcodesWith = (status: ScanResultStatus) =>
+        results.filter(({ result }) => result.status === status).map(({ barcode }) => barcode);
+      const counted = barcodesWith('counted').length;
+      const unexpected = barcodesWith('unexpected');
+      const needSerial = barcodesWith('serial_required');
+      const locationsSet = barcodesWith('location_set').length;
+      const failed = results.length - counted - unexpected.length - needSerial.length - locationsSet;
+
+      const lines = [`${counted} of ${results.length} barcodes counted.`];
+      if (unexpected.length > 0) {
+        lines.push(`Recorded as unexpected items: ${unexpected.join(', ')}`);
+      }
+      if (needSerial.length > 0) {
+        lines.push(`Serialized, scan one at a time to enter the serial number: ${needSerial.join(', ')}`);
+      }
+      if (failed > 0) {
+        lines.push(`${failed} barcodes could not be counted.`);
+      }
+      Alert.alert('Batch Counted', lines.join('\n\n'));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to process scanned batch');
+    }
+  };
+
+  /**
+   * Saves the description entered for an unexpected barcode
+   * 
+   * @param description - What the item is, as typed by the operator
+   */
+  const handleUnexpectedDescription = async (description: string) => {
+    if (!describingBarcode) return;
+    try {
+      const saved = await InventoryListService.getInstance().setUnexpectedItemDescription(describingBarcode, description);
+      if (!saved) {
+        Alert.alert(
+          'Description Not Saved',
+          `${describingBarcode} is not an unexpected item of the open count, or the count no longer accepts changes`
+        );
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save description');
+    }
+  };
+
+  /**
+   * Applies the pending correction once the operator has chosen a reason
+   * 
+   * @param reason - Why the count is corrected
+   * @param quantity - Target quantity, only provided for "set" corrections
+   */
+  const handleCorrection = async (reason: string, quantity?: number) => {
+    if (!pendingCorrection) return;
+    try {
+      const service = InventoryListService.getInstance();
+      const { type, item } = pendingCorrection;
+      if (type === 'undo') {
+        if (!(await service.undoLastScan(reason))) {
+          alertRefusedCorrection('Nothing to Undo', 'There is no scan left to undo');
+        }
+      } else if (item && type === 'decrement') {
+        if (!(await service.decrementItem(item.articleNumber, reason))) {
+          alertRefusedCorrection(
+            'Nothing to Remove',
+            service.getCurrentLocation()
+              ? `${item.articleNumber} has no counted units in this location`
+              : `${item.articleNumber} has no counted units`
+          );
+        }
+      } else if (item && type === 'set' && quantity !== undefined) {
+        if (!(await service.setScannedQuantity(item.articleNumber, quantity, reason))) {
+          alertRefusedCorrection('Invalid Quantity', `${quantity} is not a valid quantity for ${item.articleNumber}`);
+        }
+      }
+      refreshCounts();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to correct scanned quantity');
+    }
+  };
+
+  /**
+   * Tells the operator why a correction was not recorded
+   * A missing login or a closed count is reported before the correction's own reason
+   *
+   * @param title - Title of the correction's own reason
+   * @param message - Message of the correction's own reason
+   */
+  const alertRefusedCorrection = (title: string, message: string) => {
+    const operators = OperatorService.getInstance();
+    if (operators.isLoginRequired() && !operators.getCurrentOperator()) {
+      Alert.alert('Log In Required', 'Scan your badge or enter your PIN before correcting counts');
+    } else if (InventoryListService.getInstance().getCurrentSession()?.status !== 'active') {
+      Alert.alert('Count Closed', 'This count is paused or completed and accepts no corrections');
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  /**
+   * Builds the title of the correction modal for the pending correction
+   */
+  const getCorrectionTitle = (correction: PendingCorrection): string => {
+    switch (correction.type) {
+      case 'undo':
+        return 'Undo Last Scan';
+      case 'decrement':
+        return `Remove One: ${correction.item?.articleNumber}`;
+      case 'set':
+        return `Set Quantity: ${correction.item?.articleNumber}`;
+    }
+  };
+
+  /**
+   * Shows the discrepancy report of the current session
+   * 
+   * @param complete - Whether to complete the session and freeze the report first
    */
-  const handleFinishInventory = async () => {
+  const showReport = async (complete: boolean) => {
     try {
-      // Get list of missing or discrepant items
-      const missingItems = await InventoryListService.getInstance().getMissingItems(scannedItems);
-      // Navigate to the missing items report screen
-      navigation.navigate('MissingItems' as never, { missingItems } as never);
+      const service = InventoryListService.getInstance();
+      // Get the report of shortages, overages and matches
+      const report = complete
+        ? await service.completeSession()
+        : await service.getDiscrepancyReport();
+      if (!report) return;
+      // Navigate to the discrepancy report screen
+      navigation.navigate('MissingItems' as never, { report } as never);
     } catch (error) {
       Alert.alert('Error', 'Failed to process inventory results');
     }
   };
 
+  /**
+   * Completes the count with the latest counts of the other devices in its round
+   * When they cannot be downloaded the operator decides whether to complete
+   * with the counts of the last refresh
+   */
+  const completeCount = async () => {
+    const service = InventoryListService.getInstance();
+    if (service.isSharedRound()) {
+      setRefreshingTeam(true);
+      const result = await service.refreshPartialCounts();
+      setRefreshingTeam(false);
+      if (!result.ok) {
+        Alert.alert(
+          'Team Counts Not Updated',
+          `The latest counts of the other devices could not be downloaded: ${result.error.message}. The report would only include their counts up to the last refresh.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Complete Anyway', style: 'destructive', onPress: () => showReport(true) },
+          ]
+        );
+        return;
+      }
+      refreshCounts();
+    }
+    await showReport(true);
+  };
+
+  /**
+   * Asks whether to complete the count or only preview the report
+   * Completing freezes the report; the count stays open for a preview.
+   * Blind counts have no preview, as it would reveal the expected quantities
+   */
+  const handleFinishInventory = () => {
+    if (isBlindCount) {
+      Alert.alert(
+        'Finish Blind Count',
+        'Completing the count freezes its report and reveals the expected quantities. No more scans can be added afterwards.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Complete', onPress: completeCount },
+        ]
+      );
+      return;
+    }
+    Alert.alert(
+      'Finish Count',
+      'Completing the count freezes its report. No more scans can be added afterwards.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Preview', onPress: () => showReport(false) },
+        { text: 'Complete', onPress: completeCount },
+      ]
+    );
+  };
+
+  /**
+   * Pauses the count session and returns to the list selection
+   * Selecting the list again resumes the count
+   */
+  const handlePause = async () => {
+    try {
+      await InventoryListService.getInstance().pauseSession();
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to pause the count');
+    }
+  };
+
   /**
    * Renders an individual inventory item in the list
-   * Shows the item details and current scanning status
+   * Shows the item details and current scanning status; tapping opens its scan history
    * 
    * @param item - The inventory item to render
    */
   const renderItem = ({ item }: { item: ExpectedItem }) => {
     // Calculate how many of this item have been scanned
     const scannedCount = scannedItems[item.articleNumber] || 0;
-    // Determine if we've scanned the expected quantity
-    const isComplete = scannedCount >= item.expectedQuantity;
+    // Quantity counted on all devices together
+    const combinedCount = combinedCounts[item.articleNumber] || 0;
+    // Determine if we've scanned the expected quantity; blind counts must not give this away
+    const isComplete = !isBlindCount && combinedCount >= item.expectedQuantity;
+    // Corrections apply to the count in the current location on lists with locations
+    const correctableCount = hasLocations ? locationCounts[item.articleNumber] || 0 : scannedCount;
+    const expectedInLocation = currentLocation
+      ? item.locations?.find(entry => entry.locationId === currentLocation.id)?.expectedQuantity || 0
+      : 0;
 
     return (
-      <View style={[styles.itemContainer, isComplete && styles.itemComplete]}>
+      <TouchableOpacity
+        style={[styles.itemContainer, isComplete && styles.itemComplete]}
+        onPress={() => navigation.navigate('ScanHistory' as never, { articleNumber: item.articleNumber } as never)}
+      >
         <Image 
           source={{ uri: `asset:/images/${item.imagePath}.jpg` }}
           style={styles.thumbnail}
@@ -130,12 +517,47 @@ const InventoryScreen: React.FC = () => {
         <View style={styles.itemDetails}>
           <Text style={styles.itemArticleNumber}>Article: {item.articleNumber}</Text>
           <Text style={styles.itemDescription}>{item.description}</Text>
+          {item.barcodes && item.barcodes.length > 0 && (
+            <Text style={styles.itemPacks}>
+              Packs: {item.barcodes.map(alias => `${alias.label || alias.barcode} x${alias.multiplier}`).join(', ')}
+            </Text>
+          )}
           <View style={styles.quantityContainer}>
-            <Text style={styles.quantityText}>Expected: {item.expectedQuantity}</Text>
+            {!isBlindCount && (
+              <Text style={styles.quantityText}>Expected: {item.expectedQuantity}</Text>
+            )}
             <Text style={styles.quantityText}>Scanned: {scannedCount}</Text>
+            {otherDeviceCount > 0 && (
+              <Text style={styles.quantityText}>All devices: {combinedCount}</Text>
+            )}
+            {currentLocation && (
+              <Text style={styles.quantityText}>
+                In {formatLocation(currentLocation)}: {isBlindCount ? correctableCount : `${correctableCount} / ${expectedInLocation}`}
+              </Text>
+            )}
           </View>
+          {/* Serialized items are corrected by undoing scans so their serials stay accurate */}
+          {item.serialized ? (
+            <Text style={styles.itemSerialized}>Serial numbers tracked</Text>
+          ) : (
+            <View style={styles.correctionContainer}>
+              <TouchableOpacity
+                style={[styles.correctionButton, correctableCount === 0 && styles.correctionButtonDisabled]}
+                onPress={() => setPendingCorrection({ type: 'decrement', item })}
+                disabled={correctableCount === 0}
+              >
+                <Text style={styles.correctionButtonText}>-1</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.correctionButton}
+                onPress={() => setPendingCorrection({ type: 'set', item })}
+              >
+                <Text style={styles.correctionButtonText}>Set</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
-      </View>
+      </TouchableOpacity>
     );
   };
 
@@ -145,7 +567,19 @@ const InventoryScreen: React.FC = () => {
       
       {/* Header with title and finish button */}
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Inventory Scanner</Text>
+        <Text style={styles.headerTitle}>{isBlindCount ? 'Blind Count' : 'Inventory Scanner'}</Text>
+        <TouchableOpacity
+          style={styles.pauseButton}
+          onPress={handlePause}
+        >
+          <Text style={styles.finishButtonText}>Pause</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.undoButton}
+          onPress={() => setPendingCorrection({ type: 'undo', item: null })}
+        >
+          <Text style={styles.finishButtonText}>Undo</Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.finishButton}
           onPress={handleFinishInventory}
@@ -155,18 +589,88 @@ const InventoryScreen: React.FC = () => {
         </TouchableOpacity>
       </View>
 
+      {/* Logged in operator, switchable without leaving the count */}
+      <OperatorBar />
+
+      {/* Current location on lists counted by location */}
+      {hasLocations && (
+        <View style={styles.locationBar}>
+          <Text style={styles.locationText}>
+            {currentLocation
+              ? `Location: ${formatLocation(currentLocation)}`
+              : 'Scan a location label to start counting'}
+          </Text>
+        </View>
+      )}
+
+      {/* Devices counting the same list, with a refresh of their counts */}
+      <View style={styles.teamBar}>
+        <Text style={styles.teamText}>
+          {otherDeviceCount > 0
+            ? `Counting with ${otherDeviceCount} other device${otherDeviceCount === 1 ? '' : 's'}`
+            : 'No other devices counting'}
+        </Text>
+        <TouchableOpacity onPress={() => refreshTeamCounts(true)} disabled={isRefreshingTeam}>
+          <Text style={styles.teamRefreshText}>{isRefreshingTeam ? 'Refreshing...' : 'Refresh'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Search, progress filter and sort order for large lists */}
+      <View style={styles.searchBar}>
+        <TextInput
+          style={styles.searchInput}
+          value={searchText}
+          onChangeText={setSearchText}
+          placeholder="Search article or description"
+          autoCapitalize="none"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+        {!isBlindCount && (
+          <View style={styles.optionRow}>
+            {PROGRESS_FILTERS.map(option => (
+              <TouchableOpacity key={option.label} onPress={() => setProgressFilter(option.key)}>
+                <Text style={[styles.optionText, progressFilter === option.key && styles.optionTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <View style={styles.optionRow}>
+          <Text style={styles.resultText}>
+            {visibleItems.length} of {expectedItems.length} items
+          </Text>
+          {SORT_OPTIONS.filter(option => !isBlindCount || option.key !== 'remaining').map(option => (
+            <TouchableOpacity key={option.label} onPress={() => setSortKey(option.key)}>
+              <Text style={[styles.optionText, sortKey === option.key && styles.optionTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
       {/* List of expected inventory items with their status */}
       <FlatList
-        data={expectedItems}
+        data={visibleItems}
         renderItem={renderItem}
         keyExtractor={(item) => item.articleNumber}
         contentContainerStyle={styles.listContainer}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          expectedItems.length > 0 ? <Text style={styles.emptyText}>No items match the search</Text> : null
+        }
       />
 
       {/* Button to open the barcode scanner */}
       <TouchableOpacity
         style={styles.scanButton}
-        onPress={() => setScannerVisible(true)}
+        onPress={() => {
+          // Start without the feedback of the previous scanner session
+          setScanFeedback(null);
+          setScannerVisible(true);
+        }}
         android_ripple={{ color: 'rgba(255,255,255,0.3)' }}
       >
         <Text style={styles.scanButtonText}>Scan Barcode</Text>
@@ -179,10 +683,52 @@ const InventoryScreen: React.FC = () => {
         onRequestClose={() => setScannerVisible(false)}
       >
         <BarcodeScanner
-          onBarcodeScan={handleBarcodeScan}
+          onBarcodeScanned={handleBarcodeScan}
+          onBatchScanned={handleBatchScan}
           onClose={() => setScannerVisible(false)}
+          settings={scannerSettings}
+          feedback={scanFeedback}
+          paused={serialScan !== null || describingBarcode !== null}
         />
       </Modal>
+
+      {/* Reason (and quantity) entry for count corrections */}
+      <CorrectionModal
+        visible={pendingCorrection !== null}
+        title={pendingCorrection ? getCorrectionTitle(pendingCorrection) : ''}
+        askQuantity={pendingCorrection?.type === 'set'}
+        initialQuantity={
+          pendingCorrection?.item
+            ? (hasLocations ? locationCounts : scannedItems)[pendingCorrection.item.articleNumber] || 0
+            : 0
+        }
+        onClose={() => setPendingCorrection(null)}
+        onSubmit={handleCorrection}
+      />
+
+      {/* Description entry for unexpected items */}
+      <TextPromptModal
+        visible={describingBarcode !== null}
+        title="Describe Unexpected Item"
+        message={describingBarcode ? `Barcode ${describingBarcode}` : undefined}
+        placeholder="e.g. Red Widget, no label"
+        onClose={() => setDescribingBarcode(null)}
+        onSubmit={handleUnexpectedDescription}
+      />
+
+      {/* Serial number entry for serialized items */}
+      <TextPromptModal
+        visible={serialScan !== null}
+        title="Enter Serial Number"
+        message={serialScan ? `${serialScan.item.articleNumber} - ${serialScan.item.description}` : undefined}
+        placeholder="Serial number"
+        onClose={() => setSerialScan(null)}
+        onSubmit={(serial) => {
+          if (serialScan) {
+            handleBarcodeScan(serialScan.barcode, serialScan.quantity, serialScan.source, serial);
+          }
+        }}
+      />
     </View>
   );
 };
@@ -204,12 +750,112 @@ const styles = StyleSheet.create({
     padding: 15,
     backgroundColor: '#2196F3',
   },
+  // Bar below the header with the current location
+  locationBar: {
+    paddingVertical: 8,
+    paddingHorizontal: 15,
+    backgroundColor: '#E3F2FD',
+  },
+  // Current location text
+  locationText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1565C0',
+  },
+  // Bar with the devices counting the same list
+  teamBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 15,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  // Number of other devices counting
+  teamText: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  // Refresh link for the other devices' counts
+  teamRefreshText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
+  // Bar above the list with the search field, filters and sort orders
+  searchBar: {
+    paddingTop: 10,
+    paddingHorizontal: 15,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  // Search text field
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  // Row of filter or sort options
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  // Number of items shown out of all items on the list
+  resultText: {
+    fontSize: 14,
+    color: '#000000',
+    fontWeight: '600',
+    marginRight: 'auto',
+  },
+  // Filter or sort option
+  optionText: {
+    fontSize: 14,
+    color: '#666666',
+    marginRight: 12,
+  },
+  // Selected filter or sort option
+  optionTextActive: {
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  // Hint shown when no item matches the search
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+    marginTop: 20,
+  },
   // Header title text
   headerTitle: {
     fontSize: 20,
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  // Pause count session button
+  pauseButton: {
+    backgroundColor: '#607D8B',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderRadius: 4,
+    marginLeft: 'auto',
+    marginRight: 10,
+  },
+  // Undo last scan button
+  undoButton: {
+    backgroundColor: '#FF9800',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderRadius: 4,
+    marginRight: 10,
+  },
   // Finish inventory button
   finishButton: {
     backgroundColor: '#4CAF50',
@@ -263,6 +909,18 @@ const styles = StyleSheet.create({
     color: '#666666',
     marginTop: 4,
   },
+  // Pack barcodes of the item
+  itemPacks: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 2,
+  },
+  // Hint shown instead of the corrections for serialized items
+  itemSerialized: {
+    fontSize: 12,
+    color: '#2196F3',
+    marginTop: 8,
+  },
   // Container for quantity information
   quantityContainer: {
     marginTop: 8,
@@ -274,6 +932,31 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666666',
   },
+  // Row of per-item correction buttons
+  correctionContainer: {
+    marginTop: 8,
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  // Single correction button
+  correctionButton: {
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginLeft: 8,
+  },
+  // Correction button when there is nothing to correct
+  correctionButtonDisabled: {
+    opacity: 0.4,
+  },
+  // Correction button text
+  correctionButtonText: {
+    fontSize: 14,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
   // Scan barcode button at bottom of screen
   scanButton: {
     backgroundColor: '#2196F3',
@@ -1,70 +1,375 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   StyleSheet,
   View,
   Text,
   FlatList,
+  SectionList,
   Image,
   TouchableOpacity,
   StatusBar,
+  Alert,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
-import { MissingItem } from '../services/InventoryListService';
+import {
+  DiscrepancyReport,
+  DiscrepancySortKey,
+  ExportFormat,
+  ItemReview,
+  MissingItem,
+  ReviewDecision,
+  ReviewStatus,
+  UnexpectedItem,
+} from '../types';
+import { ExportService } from '../services/ExportService';
+import { InventoryListService } from '../services/InventoryListService';
+import { sortMissingItems } from '../utils/discrepancies';
+import { formatLocation } from '../utils/locations';
 
 interface MissingItemsScreenProps {
   route: {
     params: {
-      missingItems: MissingItem[];
+      report: DiscrepancyReport;
     };
   };
 }
 
+/**
+ * Report groups that can be selected with the filter tabs
+ */
+type ReportTab = 'shortage' | 'overage' | 'match' | 'unexpected' | 'location';
+
+const TABS: Array<{ key: ReportTab; label: string }> = [
+  { key: 'shortage', label: 'Shortages' },
+  { key: 'overage', label: 'Overages' },
+  { key: 'match', label: 'Matched' },
+  { key: 'unexpected', label: 'Unexpected' },
+];
+
+/**
+ * Extra tab for reports of lists counted by location
+ */
+const LOCATION_TAB: { key: ReportTab; label: string } = { key: 'location', label: 'Locations' };
+
+const SORT_OPTIONS: Array<{ key: DiscrepancySortKey; label: string }> = [
+  { key: 'variance', label: 'Variance' },
+  { key: 'articleNumber', label: 'Article' },
+  { key: 'description', label: 'Description' },
+];
+
+const EMPTY_MESSAGES: Record<ReportTab, string> = {
+  shortage: 'No missing items found!',
+  overage: 'No overcounted items',
+  match: 'No items matched exactly',
+  unexpected: 'No unexpected items scanned',
+  location: 'No discrepancies in any location',
+};
+
+const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Review pending',
+  recount_pending: 'Waiting for recounts',
+  approved: 'Review approved',
+};
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  recount: 'Recount ordered',
+};
+
+/**
+ * Describes a review decision, with both figures once a recount was completed,
+ * e.g. "Accepted (3 → 5) by Ann Smith"
+ */
+const describeReview = (review: ItemReview) => {
+  const isRecounted = review.recountQuantity !== undefined;
+  const decision = review.decision === 'recount' && isRecounted ? 'Recounted' : DECISION_LABELS[review.decision];
+  const figures = isRecounted ? ` (${review.originalQuantity} → ${review.recountQuantity})` : '';
+  const decidedBy = review.decidedBy ? ` by ${review.decidedBy.name}` : '';
+  return `${decision}${figures}${decidedBy}`;
+};
+
 const MissingItemsScreen: React.FC<MissingItemsScreenProps> = ({ route }) => {
   const navigation = useNavigation();
-  const { missingItems } = route.params;
+  // Updated with every review decision, which is saved with the report
+  const [report, setReport] = useState(route.params.report);
+  const [activeTab, setActiveTab] = useState<ReportTab>('shortage');
+  const [sortKey, setSortKey] = useState<DiscrepancySortKey>('variance');
+  const [isExporting, setExporting] = useState(false);
+  // Whether the logged in operator can review this report, and the articles selected for a decision
+  const [isReviewable, setReviewable] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (report.sessionId) {
+      InventoryListService.getInstance().isReviewable(report.sessionId).then(setReviewable);
+    }
+  }, [report.sessionId]);
+
+  // Variances are reviewed from the shortage and overage tabs
+  const canSelect = isReviewable && (activeTab === 'shortage' || activeTab === 'overage');
+
+  const items = useMemo(() => {
+    switch (activeTab) {
+      case 'shortage':
+        return sortMissingItems(report.shortages, sortKey);
+      case 'overage':
+        return sortMissingItems(report.overages, sortKey);
+      case 'match':
+        return sortMissingItems(report.matches, sortKey);
+      case 'unexpected':
+      case 'location':
+        return [];
+    }
+  }, [report, activeTab, sortKey]);
+
+  // Locations with shortages or overages, for sending recounts to the right shelf
+  const locationSections = useMemo(
+    () => (report.locations || [])
+      .map(entry => ({
+        title: formatLocation(entry.location),
+        totals: entry.totals,
+        data: entry.items.filter(item => item.status !== 'match'),
+      }))
+      .filter(section => section.data.length > 0),
+    [report]
+  );
+  const tabs = report.locations ? [...TABS, LOCATION_TAB] : TABS;
 
-  const renderItem = ({ item }: { item: MissingItem }) => (
+  /**
+   * Writes the report in the chosen format and opens the share sheet
+   */
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const exportService = ExportService.getInstance();
+      const result = await exportService.exportReport(report, format);
+      await exportService.shareExport(result);
+    } catch (error) {
+      Alert.alert('Error', `Failed to export report as ${format.toUpperCase()}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  /**
+   * Asks which file format to export
+   */
+  const handleExportPress = () => {
+    Alert.alert(
+      'Export Report',
+      'Choose a file format',
+      [
+        { text: 'CSV', onPress: () => handleExport('csv') },
+        { text: 'JSON', onPress: () => handleExport('json') },
+        { text: 'PDF', onPress: () => handleExport('pdf') },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  const toggleSelected = (articleNumber: string) => {
+    setSelected(current =>
+      current.includes(articleNumber)
+        ? current.filter(entry => entry !== articleNumber)
+        : [...current, articleNumber]
+    );
+  };
+
+  /**
+   * Records a decision for the selected articles and shows the updated report
+   */
+  const handleReview = async (decision: ReviewDecision) => {
+    if (!report.sessionId) return;
+    try {
+      const service = InventoryListService.getInstance();
+      const updated = decision === 'recount'
+        ? await service.orderRecount(report.sessionId, selected)
+        : await service.reviewItems(report.sessionId, selected, decision);
+      if (!updated) {
+        Alert.alert('Error', 'This report can no longer be reviewed');
+        return;
+      }
+      setReport(updated);
+      setSelected([]);
+      if (decision === 'recount') {
+        Alert.alert('Recount Ordered', 'A recount list with the selected articles was added to the inventory lists');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save the review');
+    }
+  };
+
+  const renderItem = ({ item }: { item: MissingItem }) => {
+    const review = report.review?.items.find(entry => entry.articleNumber === item.articleNumber);
+    return (
+      <TouchableOpacity
+        style={[styles.itemContainer, selected.includes(item.articleNumber) && canSelect && styles.itemSelected]}
+        onPress={() => toggleSelected(item.articleNumber)}
+        disabled={!canSelect}
+      >
+        <Image
+          source={{ uri: `asset:/images/${item.imagePath}.jpg` }}
+          style={styles.thumbnail}
+          resizeMode="cover"
+        />
+        <View style={styles.itemDetails}>
+          <Text style={styles.itemArticleNumber}>Article: {item.articleNumber}</Text>
+          <Text style={styles.itemDescription}>{item.description}</Text>
+          <View style={styles.quantityContainer}>
+            <Text style={styles.quantityText}>Expected: {item.expectedQuantity}</Text>
+            <Text style={styles.quantityText}>Scanned: {item.scannedQuantity}</Text>
+            {item.status === 'shortage' && (
+              <Text style={styles.missingText}>Missing: {item.missing}</Text>
+            )}
+            {item.status === 'overage' && (
+              <Text style={styles.surplusText}>Over: {-item.missing}</Text>
+            )}
+            {item.serials && item.serials.length > 0 && (
+              <Text style={styles.serialText}>S/N: {item.serials.join(', ')}</Text>
+            )}
+            {review && activeTab !== 'location' && (
+              <Text style={styles.reviewText}>{describeReview(review)}</Text>
+            )}
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderUnexpectedItem = ({ item }: { item: UnexpectedItem }) => (
     <View style={styles.itemContainer}>
-      <Image 
-        source={{ uri: `asset:/images/${item.imagePath}.jpg` }}
-        style={styles.thumbnail}
-        resizeMode="cover"
-      />
       <View style={styles.itemDetails}>
-        <Text style={styles.itemArticleNumber}>Article: {item.articleNumber}</Text>
-        <Text style={styles.itemDescription}>{item.description}</Text>
+        <Text style={styles.itemArticleNumber}>Barcode: {item.barcode}</Text>
+        <Text style={styles.itemDescription}>{item.description || 'No description'}</Text>
         <View style={styles.quantityContainer}>
-          <Text style={styles.quantityText}>Expected: {item.expectedQuantity}</Text>
-          <Text style={styles.quantityText}>Scanned: {item.scannedQuantity}</Text>
-          <Text style={styles.missingText}>Missing: {item.missing}</Text>
+          <Text style={styles.quantityText}>Expected: 0</Text>
+          <Text style={styles.quantityText}>Scanned: {item.count}</Text>
+          <Text style={styles.surplusText}>Surplus: {item.count}</Text>
         </View>
       </View>
     </View>
   );
 
+  const tabCount = (tab: ReportTab) =>
+    tab === 'location' ? locationSections.length : report.totals[tab].items;
+  const isEmpty =
+    activeTab === 'unexpected' ? report.unexpectedItems.length === 0 :
+    activeTab === 'location' ? locationSections.length === 0 :
+    items.length === 0;
+
   return (
     <View style={styles.container}>
       <StatusBar backgroundColor="#2196F3" barStyle="light-content" />
-      <Text style={styles.header}>Missing Items</Text>
-      {missingItems.length > 0 ? (
+      <Text style={styles.header}>Inventory Report</Text>
+      {report.operators && report.operators.length > 0 && (
+        <Text style={styles.operatorsText}>
+          Counted by {report.operators.map(operator => operator.name).join(', ')}
+        </Text>
+      )}
+      {(report.review || isReviewable) && (
+        <Text style={styles.reviewStatusText}>
+          {REVIEW_STATUS_LABELS[report.review?.status || 'pending']}
+          {isReviewable ? ' - tap shortages or overages to review them' : ''}
+        </Text>
+      )}
+
+      {/* Filter tabs with the number of items in each group */}
+      <View style={styles.tabContainer}>
+        {tabs.map(tab => (
+          <TouchableOpacity
+            key={tab.key}
+            style={[styles.tab, activeTab === tab.key && styles.tabActive]}
+            onPress={() => setActiveTab(tab.key)}
+          >
+            <Text style={[styles.tabText, activeTab === tab.key && styles.tabTextActive]}>
+              {tab.label} ({tabCount(tab.key)})
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.summaryContainer}>
+        <Text style={styles.summaryText}>
+          {activeTab === 'location'
+            ? `${locationSections.length} locations with discrepancies`
+            : `${report.totals[activeTab].items} items, ${report.totals[activeTab].units} units`}
+        </Text>
+        {activeTab !== 'unexpected' && activeTab !== 'location' && (
+          <View style={styles.sortContainer}>
+            {SORT_OPTIONS.map(option => (
+              <TouchableOpacity key={option.key} onPress={() => setSortKey(option.key)}>
+                <Text style={[styles.sortText, sortKey === option.key && styles.sortTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+
+      {isEmpty ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>{EMPTY_MESSAGES[activeTab]}</Text>
+        </View>
+      ) : activeTab === 'unexpected' ? (
         <FlatList
-          data={missingItems}
+          data={report.unexpectedItems}
+          renderItem={renderUnexpectedItem}
+          keyExtractor={(item) => item.barcode}
+          contentContainerStyle={styles.listContainer}
+        />
+      ) : activeTab === 'location' ? (
+        <SectionList
+          sections={locationSections}
           renderItem={renderItem}
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionHeader}>
+              {section.title}: {section.totals.shortage.units} missing, {section.totals.overage.units} over
+            </Text>
+          )}
           keyExtractor={(item) => item.articleNumber}
           contentContainerStyle={styles.listContainer}
         />
       ) : (
-        <View style={styles.emptyContainer}>
-          <Text style={styles.emptyText}>No missing items found!</Text>
+        <FlatList
+          data={items}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.articleNumber}
+          contentContainerStyle={styles.listContainer}
+        />
+      )}
+      {/* Decisions for the selected articles */}
+      {canSelect && selected.length > 0 && (
+        <View style={styles.reviewBar}>
+          <Text style={styles.reviewBarText}>{selected.length} selected</Text>
+          <TouchableOpacity style={styles.acceptButton} onPress={() => handleReview('accepted')}>
+            <Text style={styles.reviewButtonText}>Accept</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.rejectButton} onPress={() => handleReview('rejected')}>
+            <Text style={styles.reviewButtonText}>Reject</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.recountButton} onPress={() => handleReview('recount')}>
+            <Text style={styles.reviewButtonText}>Recount</Text>
+          </TouchableOpacity>
         </View>
       )}
-      <TouchableOpacity
-        style={styles.doneButton}
-        onPress={() => navigation.navigate('InventoryList' as never)}
-        android_ripple={{ color: 'rgba(255,255,255,0.3)' }}
-      >
-        <Text style={styles.doneButtonText}>Done</Text>
-      </TouchableOpacity>
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.exportButton, isExporting && styles.buttonDisabled]}
+          onPress={handleExportPress}
+          disabled={isExporting}
+        >
+          <Text style={styles.doneButtonText}>{isExporting ? 'Exporting...' : 'Export'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.doneButton}
+          onPress={() => navigation.navigate('InventoryList' as never)}
+          android_ripple={{ color: 'rgba(255,255,255,0.3)' }}
+        >
+          <Text style={styles.doneButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
     </View>
   );
 };
@@ -81,9 +386,77 @@ const styles = StyleSheet.create({
     marginVertical: 20,
     color: '#2196F3',
   },
+  tabContainer: {
+    flexDirection: 'row',
+    marginHorizontal: 15,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+    elevation: 2,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  tabActive: {
+    backgroundColor: '#2196F3',
+  },
+  tabText: {
+    fontSize: 12,
+    color: '#666666',
+    fontWeight: '500',
+  },
+  tabTextActive: {
+    color: '#FFFFFF',
+  },
+  operatorsText: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+    marginTop: -10,
+    marginBottom: 10,
+  },
+  reviewStatusText: {
+    fontSize: 14,
+    color: '#2196F3',
+    fontWeight: '500',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  summaryContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 15,
+    marginTop: 15,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#000000',
+    fontWeight: '600',
+  },
+  sortContainer: {
+    flexDirection: 'row',
+  },
+  sortText: {
+    fontSize: 14,
+    color: '#666666',
+    marginLeft: 12,
+  },
+  sortTextActive: {
+    color: '#2196F3',
+    fontWeight: '600',
+  },
   listContainer: {
     padding: 15,
   },
+  sectionHeader: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2196F3',
+    marginBottom: 10,
+  },
   itemContainer: {
     backgroundColor: '#FFFFFF',
     padding: 15,
@@ -92,6 +465,10 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     elevation: 3,
   },
+  itemSelected: {
+    borderWidth: 2,
+    borderColor: '#2196F3',
+  },
   thumbnail: {
     width: 80,
     height: 80,
@@ -118,11 +495,27 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666666',
   },
+  surplusText: {
+    fontSize: 14,
+    color: '#FF9800',
+    fontWeight: '500',
+  },
   missingText: {
     fontSize: 14,
     color: '#FF5252',
     fontWeight: '500',
   },
+  serialText: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 4,
+  },
+  reviewText: {
+    fontSize: 12,
+    color: '#2196F3',
+    fontWeight: '500',
+    marginTop: 4,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -132,10 +525,64 @@ const styles = StyleSheet.create({
     fontSize: 18,
     color: '#666666',
   },
+  reviewBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 15,
+    marginTop: 15,
+  },
+  reviewBarText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  acceptButton: {
+    backgroundColor: '#4CAF50',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  rejectButton: {
+    backgroundColor: '#FF5252',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  recountButton: {
+    backgroundColor: '#FF9800',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  reviewButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  footer: {
+    flexDirection: 'row',
+    margin: 15,
+  },
+  exportButton: {
+    flex: 1,
+    backgroundColor: '#2196F3',
+    padding: 15,
+    marginRight: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    elevation: 2,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
   doneButton: {
+    flex: 1,
     backgroundColor: '#4CAF50',
     padding: 15,
-    margin: 15,
     borderRadius: 8,
     alignItems: 'center',
     elevation: 2,
@@ -147,4 +594,4 @@ const styles = StyleSheet.create({
   },
 });
 
-export default MissingItemsScreen; 
\ No newline at end of file
+export default MissingItemsScreen;
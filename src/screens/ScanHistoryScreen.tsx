@@ -0,0 +1,180 @@
+/**
+ * ScanHistoryScreen Component
+ *
+ * Shows the scan log of the current inventory list so supervisors can audit
+ * how a count came about: when each scan happened, how it was entered,
+ * which barcode was read (with lot, expiry and serial of GS1 codes), in which
+ * location, who recorded it, and which corrections were made and why.
+ * Can be limited to a single article.
+ */
+import React from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  FlatList,
+  StatusBar,
+} from 'react-native';
+import { InventoryListService } from '../services/InventoryListService';
+import { ScanEvent, ScanSource } from '../types';
+import { formatLocation } from '../utils/locations';
+
+interface ScanHistoryScreenProps {
+  route: {
+    params?: {
+      articleNumber?: string; // Limits the history to this article when set
+    };
+  };
+}
+
+/**
+ * Labels shown for each scan source
+ */
+const SOURCE_LABELS: Record<ScanSource, string> = {
+  camera: 'Camera',
+  manual: 'Manual',
+  legacy: 'Migrated',
+};
+
+const ScanHistoryScreen: React.FC<ScanHistoryScreenProps> = ({ route }) => {
+  const articleNumber = route.params?.articleNumber;
+  // Newest scans first, the order a supervisor usually wants to read them in
+  const service = InventoryListService.getInstance();
+  const events = service
+    .getScanEvents({ articleNumber })
+    .reverse();
+  const locations = service.getCurrentList()?.locations || [];
+
+  // Shows locations as aisle-shelf-bin, falling back to the ID of locations no longer on the list
+  const locationLabel = (locationId: string) => {
+    const location = locations.find(entry => entry.id === locationId);
+    return location ? formatLocation(location) : locationId;
+  };
+
+  const renderItem = ({ item }: { item: ScanEvent }) => (
+    <View style={styles.eventContainer}>
+      <View style={styles.eventHeader}>
+        <Text style={styles.eventTime}>{new Date(item.timestamp).toLocaleString()}</Text>
+        <Text style={styles.eventSource}>{SOURCE_LABELS[item.source]}</Text>
+      </View>
+      {item.kind === 'correction' ? (
+        <Text style={styles.eventCorrection}>
+          Correction {item.quantity > 0 ? `+${item.quantity}` : item.quantity}: {item.reason}
+          {item.correctsEventId ? ' (undo)' : ''}
+        </Text>
+      ) : (
+        <Text style={styles.eventBarcode}>Barcode: {item.rawBarcode}</Text>
+      )}
+      {item.gs1 && (
+        <Text style={styles.eventDetail}>
+          GTIN {item.gs1.gtin}
+          {item.gs1.batch ? `, Lot ${item.gs1.batch}` : ''}
+          {item.gs1.expiryDate ? `, Exp ${item.gs1.expiryDate}` : ''}
+          {item.gs1.serial ? `, S/N ${item.gs1.serial}` : ''}
+        </Text>
+      )}
+      {item.locationId && (
+        <Text style={styles.eventDetail}>Location {locationLabel(item.locationId)}</Text>
+      )}
+      {item.operator && (
+        <Text style={styles.eventDetail}>By {item.operator.name}</Text>
+      )}
+      {item.serial && !item.gs1?.serial && (
+        <Text style={styles.eventDetail}>S/N {item.serial}</Text>
+      )}
+      {item.kind === 'correction' ? null : item.articleNumber ? (
+        <Text style={styles.eventDetail}>Article {item.articleNumber}, +{item.quantity}</Text>
+      ) : (
+        <Text style={styles.eventUnmatched}>Unexpected item, +{item.quantity}</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar backgroundColor="#2196F3" barStyle="light-content" />
+      <Text style={styles.header}>
+        {articleNumber ? `Scan History: ${articleNumber}` : 'Scan History'}
+      </Text>
+      {events.length > 0 ? (
+        <FlatList
+          data={events}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContainer}
+        />
+      ) : (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No scans recorded yet</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    fontSize: 24,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginVertical: 20,
+    color: '#2196F3',
+  },
+  listContainer: {
+    padding: 15,
+  },
+  eventContainer: {
+    backgroundColor: '#FFFFFF',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+    elevation: 2,
+  },
+  eventHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  eventTime: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  eventSource: {
+    fontSize: 14,
+    color: '#2196F3',
+  },
+  eventBarcode: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  eventCorrection: {
+    fontSize: 14,
+    color: '#E65100',
+  },
+  eventDetail: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+  eventUnmatched: {
+    fontSize: 14,
+    color: '#FF5252',
+    marginTop: 2,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666666',
+  },
+});
+
+export default ScanHistoryScreen;
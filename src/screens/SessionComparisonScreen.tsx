@@ -0,0 +1,314 @@
+/**
+ * SessionComparisonScreen Component
+ *
+ * Shows how the stock of each article moved between two counts of the same
+ * list: the change in scanned units, articles that are newly missing and
+ * articles that recovered. The comparison can be exported like a report.
+ */
+import React, { useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StatusBar,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { ArticleMovement, ExportFormat, MovementStatus, SessionComparison } from '../types';
+import { ExportService } from '../services/ExportService';
+
+interface SessionComparisonScreenProps {
+  route: {
+    params: {
+      comparison: SessionComparison;
+    };
+  };
+}
+
+/**
+ * Movement groups that can be selected with the filter tabs
+ */
+type ComparisonTab = 'all' | MovementStatus;
+
+const TABS: Array<{ key: ComparisonTab; label: string }> = [
+  { key: 'all', label: 'All' },
+  { key: 'newly_missing', label: 'Missing' },
+  { key: 'recovered', label: 'Recovered' },
+  { key: 'changed', label: 'Changed' },
+];
+
+/**
+ * Labels and colors shown for each movement status
+ */
+const STATUS_LABELS: Record<MovementStatus, { label: string; color: string }> = {
+  newly_missing: { label: 'Newly missing', color: '#FF5252' },
+  recovered: { label: 'Recovered', color: '#4CAF50' },
+  changed: { label: 'Changed', color: '#FF9800' },
+  unchanged: { label: 'Unchanged', color: '#666666' },
+};
+
+/**
+ * Formats a timestamp for the header, or a dash if it is missing
+ */
+function formatDate(timestamp: string | null): string {
+  return timestamp ? new Date(timestamp).toLocaleDateString() : '-';
+}
+
+const SessionComparisonScreen: React.FC<SessionComparisonScreenProps> = ({ route }) => {
+  const navigation = useNavigation();
+  const { comparison } = route.params;
+  const [activeTab, setActiveTab] = useState<ComparisonTab>('all');
+  const [isExporting, setExporting] = useState(false);
+
+  const movements = useMemo(
+    () => activeTab === 'all'
+      ? comparison.movements
+      : comparison.movements.filter(movement => movement.status === activeTab),
+    [comparison, activeTab]
+  );
+
+  /**
+   * Writes the comparison in the chosen format and opens the share sheet
+   */
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const exportService = ExportService.getInstance();
+      const result = await exportService.exportComparison(comparison, format);
+      await exportService.shareExport(result);
+    } catch (error) {
+      Alert.alert('Error', `Failed to export comparison as ${format.toUpperCase()}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  /**
+   * Asks which file format to export
+   */
+  const handleExportPress = () => {
+    Alert.alert(
+      'Export Comparison',
+      'Choose a file format',
+      [
+        { text: 'CSV', onPress: () => handleExport('csv') },
+        { text: 'JSON', onPress: () => handleExport('json') },
+        { text: 'PDF', onPress: () => handleExport('pdf') },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  const renderItem = ({ item }: { item: ArticleMovement }) => {
+    const status = STATUS_LABELS[item.status];
+    return (
+      <View style={styles.itemContainer}>
+        <View style={styles.itemHeader}>
+          <Text style={styles.itemArticleNumber}>Article: {item.articleNumber}</Text>
+          <Text style={[styles.itemStatus, { color: status.color }]}>{status.label}</Text>
+        </View>
+        <Text style={styles.itemDescription}>{item.description}</Text>
+        <View style={styles.quantityContainer}>
+          <Text style={styles.quantityText}>Previous: {item.previousScanned}</Text>
+          <Text style={styles.quantityText}>Current: {item.currentScanned}</Text>
+          <Text style={[styles.deltaText, { color: item.delta < 0 ? '#FF5252' : '#4CAF50' }]}>
+            {item.delta > 0 ? `+${item.delta}` : item.delta}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  const tabCount = (tab: ComparisonTab) =>
+    tab === 'all' ? comparison.movements.length : comparison.totals[tab];
+
+  return (
+    <View style={styles.container}>
+      <StatusBar backgroundColor="#2196F3" barStyle="light-content" />
+      <Text style={styles.header}>Stock Movement</Text>
+      <Text style={styles.subHeader}>
+        {comparison.listName}: {formatDate(comparison.previousStartedAt)} → {formatDate(comparison.currentStartedAt)}
+      </Text>
+
+      {/* Filter tabs with the number of articles in each group */}
+      <View style={styles.tabContainer}>
+        {TABS.map(tab => (
+          <TouchableOpacity
+            key={tab.key}
+            style={[styles.tab, activeTab === tab.key && styles.tabActive]}
+            onPress={() => setActiveTab(tab.key)}
+          >
+            <Text style={[styles.tabText, activeTab === tab.key && styles.tabTextActive]}>
+              {tab.label} ({tabCount(tab.key)})
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.summaryText}>
+        Net change: {comparison.netDelta > 0 ? `+${comparison.netDelta}` : comparison.netDelta} units
+      </Text>
+
+      {movements.length > 0 ? (
+        <FlatList
+          data={movements}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.articleNumber}
+          contentContainerStyle={styles.listContainer}
+        />
+      ) : (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No articles in this group</Text>
+        </View>
+      )}
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.exportButton, isExporting && styles.buttonDisabled]}
+          onPress={handleExportPress}
+          disabled={isExporting}
+        >
+          <Text style={styles.buttonText}>{isExporting ? 'Exporting...' : 'Export'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.doneButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.buttonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    fontSize: 24,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 20,
+    color: '#2196F3',
+  },
+  subHeader: {
+    fontSize: 14,
+    textAlign: 'center',
+    color: '#666666',
+    marginTop: 4,
+    marginBottom: 15,
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    marginHorizontal: 15,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+    elevation: 2,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  tabActive: {
+    backgroundColor: '#2196F3',
+  },
+  tabText: {
+    fontSize: 12,
+    color: '#666666',
+    fontWeight: '500',
+  },
+  tabTextActive: {
+    color: '#FFFFFF',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#000000',
+    fontWeight: '600',
+    marginHorizontal: 15,
+    marginTop: 15,
+  },
+  listContainer: {
+    padding: 15,
+  },
+  itemContainer: {
+    backgroundColor: '#FFFFFF',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 15,
+    elevation: 3,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  itemArticleNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  itemStatus: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  itemDescription: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 4,
+  },
+  quantityContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  quantityText: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  deltaText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666666',
+  },
+  footer: {
+    flexDirection: 'row',
+    margin: 15,
+  },
+  exportButton: {
+    flex: 1,
+    backgroundColor: '#2196F3',
+    padding: 15,
+    marginRight: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    elevation: 2,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  doneButton: {
+    flex: 1,
+    backgroundColor: '#4CAF50',
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+    elevation: 2,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default SessionComparisonScreen;
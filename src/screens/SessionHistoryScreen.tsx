@@ -0,0 +1,336 @@
+/**
+ * SessionHistoryScreen Component
+ *
+ * Lists every count session of an inventory list, newest first, with its
+ * state and start/end times. Completed sessions open their frozen report and
+ * can be archived. Two sessions can be selected to compare their counts.
+ * A fresh count can be started from here, as a standard or a blind count; an
+ * open count is completed first so that its report stays in the history.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StatusBar,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { InventoryListService } from '../services/InventoryListService';
+import { CountSession, CountSessionStatus } from '../types';
+
+interface SessionHistoryScreenProps {
+  route: {
+    params: {
+      listId: string;
+      listName: string;
+    };
+  };
+}
+
+/**
+ * Labels and colors shown for each session state
+ */
+const STATUS_LABELS: Record<CountSessionStatus, { label: string; color: string }> = {
+  active: { label: 'In Progress', color: '#2196F3' },
+  paused: { label: 'Paused', color: '#FF9800' },
+  completed: { label: 'Completed', color: '#4CAF50' },
+  archived: { label: 'Archived', color: '#9E9E9E' },
+};
+
+const SessionHistoryScreen: React.FC<SessionHistoryScreenProps> = ({ route }) => {
+  const navigation = useNavigation();
+  const { listId, listName } = route.params;
+  const [sessions, setSessions] = useState<CountSession[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  // IDs of the sessions selected for comparison, at most two
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  /**
+   * Loads the sessions of the list, newest first
+   */
+  const loadSessions = useCallback(async () => {
+    try {
+      const all = await InventoryListService.getInstance().getSessions(listId);
+      setSessions(all.reverse());
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load the counts of this list');
+    }
+  }, [listId]);
+
+  useEffect(() => {
+    loadSessions();
+    return navigation.addListener('focus', loadSessions);
+  }, [navigation, loadSessions]);
+
+  const hasOpenSession = sessions.some(
+    session => session.status === 'active' || session.status === 'paused'
+  );
+
+  /**
+   * Opens the frozen report of a completed session
+   */
+  const handleOpenReport = async (session: CountSession) => {
+    const report = await InventoryListService.getInstance().getSessionReport(session.id);
+    if (!report) {
+      Alert.alert('No Report', 'No report was saved for this count');
+      return;
+    }
+    navigation.navigate('MissingItems' as never, { report } as never);
+  };
+
+  /**
+   * Continues the open count of the list
+   */
+  const handleContinue = async () => {
+    try {
+      await InventoryListService.getInstance().setCurrentList(listId);
+      navigation.navigate('Inventory' as never);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load the count of this list');
+    }
+  };
+
+  /**
+   * Starts a fresh count, completing the open one first
+   * Blind counts hide expected quantities until the report
+   */
+  const handleStartNew = async () => {
+    const start = async (blindCount: boolean) => {
+      try {
+        await InventoryListService.getInstance().startSession(listId, blindCount);
+        navigation.navigate('Inventory' as never);
+      } catch (error) {
+        Alert.alert('Error', 'Failed to start a new count');
+      }
+    };
+    const chooseMode = () => {
+      Alert.alert(
+        'Count Mode',
+        'A blind count hides expected quantities until the report.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Standard', onPress: () => start(false) },
+          { text: 'Blind', onPress: () => start(true) },
+        ]
+      );
+    };
+
+    if (!hasOpenSession) {
+      chooseMode();
+      return;
+    }
+    Alert.alert(
+      'Start New Count',
+      'The current count will be completed and its report kept in the history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Start', onPress: chooseMode },
+      ]
+    );
+  };
+
+  /**
+   * Selects or deselects a session for comparison, keeping the two most recent selections
+   */
+  const toggleCompare = (session: CountSession) => {
+    setCompareIds(current =>
+      current.includes(session.id)
+        ? current.filter(id => id !== session.id)
+        : [...current, session.id].slice(-2)
+    );
+  };
+
+  /**
+   * Compares the two selected sessions
+   */
+  const handleCompare = async () => {
+    try {
+      const comparison = await InventoryListService.getInstance().compareSessions(compareIds[0], compareIds[1]);
+      if (!comparison) {
+        Alert.alert('Cannot Compare', 'A report is missing for one of the selected counts');
+        return;
+      }
+      navigation.navigate('SessionComparison' as never, { comparison } as never);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to compare the counts');
+    }
+  };
+
+  /**
+   * Hides a completed session from the default history
+   */
+  const handleArchive = async (session: CountSession) => {
+    try {
+      await InventoryListService.getInstance().archiveSession(listId, session.id);
+      await loadSessions();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to archive the count');
+    }
+  };
+
+  const renderItem = ({ item }: { item: CountSession }) => {
+    const status = STATUS_LABELS[item.status];
+    const isOpen = item.status === 'active' || item.status === 'paused';
+
+    return (
+      <TouchableOpacity
+        style={styles.sessionContainer}
+        onPress={() => (isOpen ? handleContinue() : handleOpenReport(item))}
+      >
+        <View style={styles.sessionHeader}>
+          <Text style={styles.sessionStarted}>{new Date(item.startedAt).toLocaleString()}</Text>
+          <Text style={[styles.sessionStatus, { color: status.color }]}>{status.label}</Text>
+        </View>
+        <Text style={styles.sessionDetail}>
+          {item.endedAt ? `Completed ${new Date(item.endedAt).toLocaleString()}` : 'Not completed yet'}
+        </Text>
+        {item.blindCount && <Text style={styles.sessionDetail}>Blind count</Text>}
+        <View style={styles.sessionActions}>
+          <TouchableOpacity onPress={() => toggleCompare(item)}>
+            <Text style={[styles.actionText, compareIds.includes(item.id) && styles.actionTextActive]}>
+              {compareIds.includes(item.id) ? 'Selected' : 'Compare'}
+            </Text>
+          </TouchableOpacity>
+          {item.status === 'completed' && (
+            <TouchableOpacity onPress={() => handleArchive(item)}>
+              <Text style={styles.actionText}>Archive</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const visibleSessions = showArchived
+    ? sessions
+    : sessions.filter(session => session.status !== 'archived');
+
+  return (
+    <View style={styles.container}>
+      <StatusBar backgroundColor="#2196F3" barStyle="light-content" />
+      <Text style={styles.header}>{listName}</Text>
+      <TouchableOpacity style={styles.toggle} onPress={() => setShowArchived(!showArchived)}>
+        <Text style={styles.toggleText}>{showArchived ? 'Hide archived' : 'Show archived'}</Text>
+      </TouchableOpacity>
+      {visibleSessions.length > 0 ? (
+        <FlatList
+          data={visibleSessions}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContainer}
+        />
+      ) : (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>This list has not been counted yet</Text>
+        </View>
+      )}
+      {compareIds.length === 2 && (
+        <TouchableOpacity style={styles.compareButton} onPress={handleCompare}>
+          <Text style={styles.startButtonText}>Compare Selected</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={styles.startButton} onPress={handleStartNew}>
+        <Text style={styles.startButtonText}>Start New Count</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    fontSize: 24,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginVertical: 20,
+    color: '#2196F3',
+  },
+  toggle: {
+    alignSelf: 'flex-end',
+    marginHorizontal: 15,
+  },
+  toggleText: {
+    fontSize: 14,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  listContainer: {
+    padding: 15,
+  },
+  sessionContainer: {
+    backgroundColor: '#FFFFFF',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+    elevation: 2,
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  sessionStarted: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  sessionStatus: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sessionDetail: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  sessionActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  actionText: {
+    fontSize: 14,
+    color: '#9E9E9E',
+    fontWeight: '600',
+  },
+  actionTextActive: {
+    color: '#2196F3',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666666',
+  },
+  compareButton: {
+    backgroundColor: '#2196F3',
+    padding: 15,
+    marginHorizontal: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+    elevation: 2,
+  },
+  startButton: {
+    backgroundColor: '#4CAF50',
+    padding: 15,
+    margin: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+    elevation: 2,
+  },
+  startButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default SessionHistoryScreen;
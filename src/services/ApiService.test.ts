@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import NetInfo from '@react-native-community/netinfo';
+import { ApiService } from './ApiService';
+import { ScanUploadPayload } from '../types';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { fetch: jest.fn() },
+}));
+
+const netInfoFetch = NetInfo.fetch as unknown as jest.Mock<() => Promise<{ isConnected: boolean }>>;
+const fetchMock = jest.fn<typeof fetch>();
+
+const payload: ScanUploadPayload = {
+  listId: 'WH-01',
+  scannedItems: { 'A-100': 3 },
+  timestamp: '2024-05-01T10:00:00.000Z',
+  deviceId: 'device-1',
+  version: 1,
+  roundId: 'round-1',
+};
+
+/**
+ * Builds a fetch response with a JSON body
+ */
+function jsonResponse(body: unknown, status = 200): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  } as Response;
+}
+
+describe('ApiService', () => {
+  const service = ApiService.getInstance();
+
+  beforeEach(() => {
+    service.configure({ baseUrl: 'http://localhost:3000/api', timeoutMs: 1000, authToken: undefined });
+    netInfoFetch.mockResolvedValue({ isConnected: true });
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports offline without sending a request', async () => {
+    netInfoFetch.mockResolvedValue({ isConnected: false });
+
+    const result = await service.fetchInventoryLists();
+
+    expect(result).toEqual({ ok: false, error: { type: 'offline', message: 'No network connection' } });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reports a timeout when the server does not answer in time', async () => {
+    service.configure({ timeoutMs: 10 });
+    fetchMock.mockImplementation((_url, init) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+    );
+
+    const result = await service.fetchInventoryLists();
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.type).toBe('timeout');
+  });
+
+  it('reports network failures', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+
+    const result = await service.fetchOperators();
+
+    expect(!result.ok && result.error.type).toBe('network');
+  });
+
+  it('reports http errors with their status', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}, 503));
+
+    const result = await service.uploadScannedItems(payload);
+
+    expect(result).toEqual({
+      ok: false,
+      error: { type: 'http', message: 'Server responded with 503', status: 503 },
+    });
+  });
+
+  it('reports bodies that are not JSON', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => {
+        throw new SyntaxError('Unexpected token');
+      },
+    } as unknown as Response);
+
+    const result = await service.fetchInventoryLists();
+
+    expect(!result.ok && result.error.type).toBe('invalid_response');
+  });
+
+  it('reports a timeout when the body does not arrive in time', async () => {
+    service.configure({ timeoutMs: 10 });
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => new Promise(() => undefined),
+    } as unknown as Response);
+
+    const result = await service.fetchInventoryLists();
+
+    expect(!result.ok && result.error.type).toBe('timeout');
+  });
+
+  it.each([
+    ['null', null],
+    ['an array', []],
+    ['a string', 'ok'],
+  ])('reports bodies that are %s instead of an object', async (_case, body) => {
+    fetchMock.mockResolvedValue(jsonResponse(body));
+
+    const results = [
+      await service.fetchInventoryLists(),
+      await service.fetchOperators(),
+      await service.fetchPartialCounts('WH-01'),
+      await service.uploadScannedItems(payload),
+    ];
+
+    results.forEach(result => expect(!result.ok && result.error.type).toBe('invalid_response'));
+  });
+
+  it('sends the auth token and the JSON body', async () => {
+    service.configure({ authToken: 'secret' });
+    fetchMock.mockResolvedValue(jsonResponse({ accepted: true, receivedAt: '2024-05-01T10:00:01.000Z' }));
+
+    const result = await service.uploadScannedItems(payload);
+
+    expect(result).toEqual({ ok: true, data: { listId: 'WH-01', receivedAt: '2024-05-01T10:00:01.000Z' } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:3000/api/inventory-lists/WH-01/scans');
+    expect(init?.method).toBe('POST');
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init?.body as string)).toEqual(payload);
+  });
+
+  it.each([
+    ['accepted is false', { accepted: false }],
+    ['accepted is missing', {}],
+    ['accepted is not a boolean', { accepted: 'true' }],
+  ])('treats an upload as rejected when %s', async (_case, body) => {
+    fetchMock.mockResolvedValue(jsonResponse(body));
+
+    const result = await service.uploadScannedItems(payload);
+
+    expect(!result.ok && result.error.type).toBe('rejected');
+  });
+
+  it('rejects list responses without an inventoryLists array', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ lists: [] }));
+
+    const result = await service.fetchInventoryLists();
+
+    expect(!result.ok && result.error.type).toBe('invalid_response');
+  });
+
+  it('drops invalid inventory lists and keeps the valid ones', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const valid = {
+      id: 'WH-01',
+      name: 'Warehouse 1',
+      description: '',
+      items: [{ articleNumber: 'A-100', description: 'Widget', expectedQuantity: 5, imagePath: 'widget' }],
+    };
+    fetchMock.mockResolvedValue(jsonResponse({
+      inventoryLists: [valid, { id: 'WH-02', name: 'Broken', items: 'none' }],
+    }));
+
+    const result = await service.fetchInventoryLists();
+
+    expect(result).toEqual({ ok: true, data: [valid] });
+  });
+
+  it('drops malformed partial counts and those of other lists', async () => {
+    const valid = {
+      deviceId: 'device-2',
+      listId: 'WH-01',
+      roundId: 'round-1',
+      version: 4,
+      updatedAt: '2024-05-01T10:00:00.000Z',
+      scannedItems: { 'A-100': 2 },
+    };
+    fetchMock.mockResolvedValue(jsonResponse({
+      partialCounts: [
+        valid,
+        { ...valid, deviceId: 'device-3', listId: 'WH-02' },
+        { ...valid, deviceId: 'device-4', scannedItems: { 'A-100': -1 } },
+        { ...valid, deviceId: 'device-5', version: '4' },
+        { ...valid, deviceId: 'device-6', roundId: undefined },
+        null,
+      ],
+    }));
+
+    const result = await service.fetchPartialCounts('WH-01');
+
+    expect(result).toEqual({ ok: true, data: [valid] });
+  });
+});
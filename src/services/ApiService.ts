@@ -0,0 +1,279 @@
+/**
+ * ApiService Class
+ *
+ * This service handles all HTTP communication with the remote inventory API, including:
+ * - Downloading the latest inventory lists
+ * - Uploading scanned item counts per inventory list
+ * - Submitting finished missing items reports
+ * - Downloading the partial counts of every device counting a list
+ * - Downloading the operators allowed to log in
+ *
+ * Requests never throw. Every call resolves to an ApiResult so callers can tell
+ * offline, timeout, HTTP and validation failures apart.
+ *
+ * It implements the Singleton pattern to ensure consistent state across the app.
+ */
+import NetInfo from '@react-native-community/netinfo';
+import {
+  ApiConfig,
+  ApiResult,
+  DevicePartialCount,
+  InventoryList,
+  Operator,
+  ReportSubmissionPayload,
+  ScanUploadPayload,
+  ScanUploadReceipt,
+} from '../types';
+import { parseOperators } from '../utils/operators';
+import { parsePartialCounts } from '../utils/countMerge';
+import { validateInventoryLists } from '../utils/listValidation';
+import defaultConfig from '../config/api-config.json';
+
+/**
+ * API endpoint paths relative to the configured base URL
+ */
+const ENDPOINTS = {
+  INVENTORY_LISTS: '/inventory-lists',                                  // GET all inventory lists
+  SCANS: (listId: string) => `/inventory-lists/${encodeURIComponent(listId)}/scans`, // POST scanned counts
+  REPORTS: (listId: string) => `/inventory-lists/${encodeURIComponent(listId)}/reports`, // POST missing items report
+  OPERATORS: '/operators',                                              // GET operators allowed to log in
+  PARTIAL_COUNTS: (listId: string) => `/inventory-lists/${encodeURIComponent(listId)}/partial-counts`, // GET counts per device
+};
+
+export class ApiService {
+  // Singleton instance
+  private static instance: ApiService;
+  // Active connection settings
+  private config: ApiConfig;
+
+  /**
+   * Private constructor to enforce the Singleton pattern
+   * Starts with the bundled default configuration
+   */
+  private constructor() {
+    this.config = { ...defaultConfig };
+  }
+
+  /**
+   * Gets the singleton instance of the service
+   * Creates a new instance if one doesn't exist
+   *
+   * @returns The ApiService singleton instance
+   */
+  static getInstance(): ApiService {
+    if (!ApiService.instance) {
+      ApiService.instance = new ApiService();
+    }
+    return ApiService.instance;
+  }
+
+  /**
+   * Overrides parts of the connection settings, e.g. to point the app
+   * at a local mock server during development
+   *
+   * @param config - Settings to merge into the current configuration
+   */
+  configure(config: Partial<ApiConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Returns a copy of the active connection settings
+   *
+   * @returns The current API configuration
+   */
+  getConfig(): ApiConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Downloads all inventory lists available on the server
+   * Lists that fail validation are left out, so they never replace stored lists
+   *
+   * @returns Promise resolving to the valid lists or a typed error
+   */
+  async fetchInventoryLists(): Promise<ApiResult<InventoryList[]>> {
+    const result = await this.request<{ inventoryLists?: unknown }>('GET', ENDPOINTS.INVENTORY_LISTS);
+    if (!result.ok) return result;
+
+    if (!Array.isArray(result.data.inventoryLists)) {
+      return {
+        ok: false,
+        error: { type: 'invalid_response', message: 'Response does not contain an inventoryLists array' },
+      };
+    }
+    const { lists, errors } = validateInventoryLists(result.data.inventoryLists);
+    if (errors.length > 0) {
+      console.warn('Skipped invalid inventory lists from the server:', errors);
+    }
+    return { ok: true, data: lists };
+  }
+
+  /**
+   * Uploads the scanned counts of a single inventory list
+   * Only succeeds when the server explicitly confirms the upload
+   *
+   * @param payload - Scanned counts and metadata for one list
+   * @returns Promise resolving to the server receipt or a typed error
+   */
+  async uploadScannedItems(payload: ScanUploadPayload): Promise<ApiResult<ScanUploadReceipt>> {
+    return this.postConfirmed(ENDPOINTS.SCANS(payload.listId), payload.listId, payload);
+  }
+
+  /**
+   * Downloads the operators allowed to log in on the device
+   *
+   * @returns Promise resolving to the operators or a typed error
+   */
+  async fetchOperators(): Promise<ApiResult<Operator[]>> {
+    const result = await this.request<{ operators?: unknown }>('GET', ENDPOINTS.OPERATORS);
+    if (!result.ok) return result;
+
+    if (!Array.isArray(result.data.operators)) {
+      return {
+        ok: false,
+        error: { type: 'invalid_response', message: 'Response does not contain an operators array' },
+      };
+    }
+    return { ok: true, data: parseOperators(result.data.operators) };
+  }
+
+  /**
+   * Downloads the latest partial count of every device that uploaded counts for a list
+   * Malformed entries and entries of other lists are left out
+   *
+   * @param listId - ID of the inventory list
+   * @returns Promise resolving to one partial count per device or a typed error
+   */
+  async fetchPartialCounts(listId: string): Promise<ApiResult<DevicePartialCount[]>> {
+    const result = await this.request<{ partialCounts?: unknown }>('GET', ENDPOINTS.PARTIAL_COUNTS(listId));
+    if (!result.ok) return result;
+
+    if (!Array.isArray(result.data.partialCounts)) {
+      return {
+        ok: false,
+        error: { type: 'invalid_response', message: 'Response does not contain a partialCounts array' },
+      };
+    }
+    const partialCounts = parsePartialCounts(result.data.partialCounts)
+      .filter(partial => partial.listId === listId);
+    return { ok: true, data: partialCounts };
+  }
+
+  /**
+   * Submits a finished missing items report for one inventory list
+   * Only succeeds when the server explicitly confirms the submission
+   *
+   * @param payload - Report and metadata for one list
+   * @returns Promise resolving to the server receipt or a typed error
+   */
+  async submitReport(payload: ReportSubmissionPayload): Promise<ApiResult<ScanUploadReceipt>> {
+    return this.postConfirmed(ENDPOINTS.REPORTS(payload.listId), payload.listId, payload);
+  }
+
+  /**
+   * Posts data that the server must acknowledge with `{ accepted: true }`
+   *
+   * @param path - Endpoint path relative to the base URL
+   * @param listId - Inventory list the data belongs to
+   * @param payload - Request body
+   * @returns Promise resolving to the server receipt or a typed error
+   */
+  private async postConfirmed(
+    path: string,
+    listId: string,
+    payload: unknown
+  ): Promise<ApiResult<ScanUploadReceipt>> {
+    const result = await this.request<{ accepted?: boolean; receivedAt?: string }>('POST', path, payload);
+    if (!result.ok) return result;
+
+    if (result.data.accepted !== true) {
+      return {
+        ok: false,
+        error: { type: 'rejected', message: `Server did not accept ${path}` },
+      };
+    }
+    return {
+      ok: true,
+      data: {
+        listId,
+        receivedAt: result.data.receivedAt || new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Performs a JSON request against the configured server
+   * Checks connectivity first and aborts requests whose response, including its
+   * body, does not arrive within the timeout
+   *
+   * @param method - HTTP method to use
+   * @param path - Endpoint path relative to the base URL
+   * @param body - Optional request body, serialized as JSON
+   * @returns Promise resolving to the parsed response body, which is always a JSON object, or a typed error
+   */
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<ApiResult<T>> {
+    const networkState = await NetInfo.fetch();
+    if (!networkState.isConnected) {
+      return { ok: false, error: { type: 'offline', message: 'No network connection' } };
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
+    // Rejects once the timeout aborts the request; raced against every step
+    const aborted = new Promise<never>((_resolve, reject) => {
+      controller.signal.addEventListener('abort', () => reject(new Error('Request aborted')));
+    });
+    const timeoutError: ApiResult<T> = {
+      ok: false,
+      error: { type: 'timeout', message: `Request timed out after ${this.config.timeoutMs} ms` },
+    };
+
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+    };
+    if (this.config.authToken) {
+      headers.Authorization = `Bearer ${this.config.authToken}`;
+    }
+
+    try {
+      let response: Response;
+      try {
+        response = await Promise.race([
+          fetch(`${this.config.baseUrl}${path}`, {
+            method,
+            headers,
+            body: body !== undefined ? JSON.stringify(body) : undefined,
+            signal: controller.signal,
+          }),
+          aborted,
+        ]);
+      } catch (error) {
+        if (controller.signal.aborted) return timeoutError;
+        return { ok: false, error: { type: 'network', message: String(error) } };
+      }
+
+      if (!response.ok) {
+        return {
+          ok: false,
+          error: { type: 'http', message: `Server responded with ${response.status}`, status: response.status },
+        };
+      }
+
+      let data: unknown;
+      try {
+        data = await Promise.race([response.json(), aborted]);
+      } catch (error) {
+        if (controller.signal.aborted) return timeoutError;
+        return { ok: false, error: { type: 'invalid_response', message: 'Response is not valid JSON' } };
+      }
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return { ok: false, error: { type: 'invalid_response', message: 'Response is not a JSON object' } };
+      }
+      return { ok: true, data: data as T };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
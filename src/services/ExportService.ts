@@ -0,0 +1,173 @@
+/**
+ * ExportService Class
+ *
+ * This service turns discrepancy reports and session comparisons into files the
+ * back office can use, including:
+ * - CSV for spreadsheets
+ * - Structured JSON for other systems
+ * - A printable PDF
+ *
+ * Files are written to the app's document directory and can be handed to the
+ * Android share sheet (mail, messaging, cloud drives, ...).
+ *
+ * It implements the Singleton pattern to ensure consistent state across the app.
+ */
+import RNFS from 'react-native-fs';
+import RNHTMLtoPDF from 'react-native-html-to-pdf';
+import Share from 'react-native-share';
+import { DiscrepancyReport, ExportFormat, ExportResult, SessionComparison } from '../types';
+import { StorageService } from './StorageService';
+import {
+  comparisonToCsv,
+  comparisonToHtml,
+  comparisonToJson,
+  reportToCsv,
+  reportToHtml,
+  reportToJson,
+} from '../utils/reportFormatters';
+
+/**
+ * MIME types used when sharing exported files
+ */
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  pdf: 'application/pdf',
+};
+
+export class ExportService {
+  // Singleton instance
+  private static instance: ExportService;
+  // Reference to local storage service
+  private storageService: StorageService;
+
+  /**
+   * Private constructor to enforce the Singleton pattern
+   * Initializes the storage service
+   */
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+  }
+
+  /**
+   * Gets the singleton instance of the service
+   * Creates a new instance if one doesn't exist
+   *
+   * @returns The ExportService singleton instance
+   */
+  static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService();
+    }
+    return ExportService.instance;
+  }
+
+  /**
+   * Writes a report to device storage in the requested format
+   *
+   * @param report - The report to export
+   * @param format - Target file format
+   * @returns Promise resolving to the written file
+   */
+  async exportReport(report: DiscrepancyReport, format: ExportFormat): Promise<ExportResult> {
+    const baseName = this.buildFileName('inventory', report.listId, report.generatedAt);
+    try {
+      switch (format) {
+        case 'csv':
+          return await this.writeTextFile(`${baseName}.csv`, reportToCsv(report), format);
+        case 'json':
+          return await this.writeTextFile(`${baseName}.json`, reportToJson(report), format);
+        case 'pdf':
+          return await this.writePdf(baseName, reportToHtml(report));
+      }
+    } catch (error) {
+      console.error(`Error exporting report as ${format}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Writes a comparison of two count sessions to device storage in the requested format
+   *
+   * @param comparison - The comparison to export
+   * @param format - Target file format
+   * @returns Promise resolving to the written file
+   */
+  async exportComparison(comparison: SessionComparison, format: ExportFormat): Promise<ExportResult> {
+    const baseName = this.buildFileName('comparison', comparison.listId, comparison.generatedAt);
+    try {
+      switch (format) {
+        case 'csv':
+          return await this.writeTextFile(`${baseName}.csv`, comparisonToCsv(comparison), format);
+        case 'json':
+          return await this.writeTextFile(`${baseName}.json`, comparisonToJson(comparison), format);
+        case 'pdf':
+          return await this.writePdf(baseName, comparisonToHtml(comparison));
+      }
+    } catch (error) {
+      console.error(`Error exporting comparison as ${format}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Exports the report last saved for a count session
+   *
+   * @param sessionId - ID of the count session whose saved report should be exported
+   * @param format - Target file format
+   * @returns Promise resolving to the written file, or null if no report was saved yet
+   */
+  async exportSavedReport(sessionId: string, format: ExportFormat): Promise<ExportResult | null> {
+    const report = await this.storageService.getDiscrepancyReport(sessionId);
+    return report ? this.exportReport(report, format) : null;
+  }
+
+  /**
+   * Opens the share sheet for an exported file
+   *
+   * @param result - File returned by exportReport
+   */
+  async shareExport(result: ExportResult): Promise<void> {
+    try {
+      await Share.open({
+        url: `file://${result.filePath}`,
+        type: MIME_TYPES[result.format],
+        filename: result.fileName,
+        failOnCancel: false,
+      });
+    } catch (error) {
+      console.error('Error sharing export:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Builds a file name from a prefix, the list ID and the generation time, e.g.
+   * "inventory-warehouse-a-2024-05-01T10-30-00"
+   */
+  private buildFileName(prefix: string, listId: string, generatedAt: string): string {
+    const listPart = listId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const timePart = generatedAt.slice(0, 19).replace(/:/g, '-');
+    return `${prefix}-${listPart}-${timePart}`;
+  }
+
+  /**
+   * Writes UTF-8 text to the document directory
+   */
+  private async writeTextFile(fileName: string, contents: string, format: ExportFormat): Promise<ExportResult> {
+    const filePath = `${RNFS.DocumentDirectoryPath}/${fileName}`;
+    await RNFS.writeFile(filePath, contents, 'utf8');
+    return { format, fileName, filePath };
+  }
+
+  /**
+   * Renders HTML to a PDF in the documents directory
+   */
+  private async writePdf(baseName: string, html: string): Promise<ExportResult> {
+    const pdf = await RNHTMLtoPDF.convert({ html, fileName: baseName, directory: 'Documents' });
+    if (!pdf.filePath) {
+      throw new Error('PDF could not be created');
+    }
+    return { format: 'pdf', fileName: `${baseName}.pdf`, filePath: pdf.filePath };
+  }
+}
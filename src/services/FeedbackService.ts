@@ -0,0 +1,46 @@
+/**
+ * FeedbackService Class
+ *
+ * This service plays the vibration pattern that tells the operator what
+ * happened to a scan without looking at the screen. Feedback is vibration
+ * only; the app ships no sounds.
+ *
+ * It implements the Singleton pattern to ensure consistent state across the app.
+ */
+import { Vibration } from 'react-native';
+import { ScanFeedbackKind } from '../types';
+import { FEEDBACK_SIGNALS } from '../utils/scanFeedback';
+
+export class FeedbackService {
+  // Singleton instance
+  private static instance: FeedbackService;
+
+  /**
+   * Private constructor to enforce the Singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Gets the singleton instance of the service
+   * Creates a new instance if one doesn't exist
+   *
+   * @returns The FeedbackService singleton instance
+   */
+  static getInstance(): FeedbackService {
+    if (!FeedbackService.instance) {
+      FeedbackService.instance = new FeedbackService();
+    }
+    return FeedbackService.instance;
+  }
+
+  /**
+   * Plays the vibration pattern of a feedback kind
+   * A pattern that is still running from the previous scan is replaced
+   *
+   * @param kind - Kind of feedback to give
+   */
+  play(kind: ScanFeedbackKind): void {
+    Vibration.cancel();
+    Vibration.vibrate(FEEDBACK_SIGNALS[kind].vibration);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * ImportService Class
+ *
+ * This service brings inventory lists exported by the ERP into the app, including:
+ * - Picking a CSV file from the device or a cloud drive
+ * - Parsing it into rows for column mapping and preview
+ * - Saving a confirmed list next to the lists downloaded from the server, without
+ *   taking over the ID of a downloaded or bundled list or of a list being counted
+ *
+ * Validation itself lives in utils/csvImport so the preview can be rebuilt
+ * whenever the operator changes the column mapping.
+ *
+ * It implements the Singleton pattern to ensure consistent state across the app.
+ */
+import RNFS from 'react-native-fs';
+import DocumentPicker, { isCancel, types } from 'react-native-document-picker';
+import { ExpectedItem, InventoryList } from '../types';
+import { StorageService } from './StorageService';
+import { parseCsv } from '../utils/csv';
+
+/**
+ * A CSV file picked for import
+ */
+export interface PickedCsvFile {
+  fileName: string;           // Name of the file as shown by the picker
+  rows: string[][];           // Parsed rows, header row first
+}
+
+/**
+ * Whether an imported list may be saved under an ID
+ */
+export type ListIdStatus =
+  | 'available'               // No stored list has the ID
+  | 'replaceable'             // An earlier import with no open count has the ID; replacing it needs confirmation
+  | 'taken';                  // A downloaded or bundled list, or a list being counted, has the ID
+
+export class ImportService {
+  // Singleton instance
+  private static instance: ImportService;
+  // Reference to local storage service
+  private storageService: StorageService;
+
+  /**
+   * Private constructor to enforce the Singleton pattern
+   * Initializes the storage service
+   */
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+  }
+
+  /**
+   * Gets the singleton instance of the service
+   * Creates a new instance if one doesn't exist
+   *
+   * @returns The ImportService singleton instance
+   */
+  static getInstance(): ImportService {
+    if (!ImportService.instance) {
+      ImportService.instance = new ImportService();
+    }
+    return ImportService.instance;
+  }
+
+  /**
+   * Lets the operator pick a CSV file and parses it
+   *
+   * @returns Promise resolving to the parsed file, or null if the picker was cancelled
+   */
+  async pickCsvFile(): Promise<PickedCsvFile | null> {
+    try {
+      // Copy the file into the cache so content:// URIs from cloud drives can be read
+      const file = await DocumentPicker.pickSingle({
+        type: [types.csv, types.plainText, types.allFiles],
+        copyTo: 'cachesDirectory',
+      });
+      const path = decodeURIComponent((file.fileCopyUri || file.uri).replace('file://', ''));
+      const text = await RNFS.readFile(path, 'utf8');
+      return { fileName: file.name || 'import.csv', rows: parseCsv(text) };
+    } catch (error) {
+      if (isCancel(error)) return null;
+      console.error('Error reading CSV file:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks whether an imported list may be saved under an ID
+   *
+   * @param listId - ID entered by the operator
+   * @returns Promise resolving to whether the ID is free, replaceable or taken
+   * @throws If the count sessions of an existing list cannot be read
+   */
+  async getListIdStatus(listId: string): Promise<ListIdStatus> {
+    const lists = await this.storageService.getInventoryLists();
+    const existing = lists.find(list => list.id === listId);
+    if (!existing) return 'available';
+    if (existing.origin !== 'import') return 'taken';
+
+    const sessions = await this.storageService.getCountSessions(listId);
+    const isCounting = sessions.some(session => session.status === 'active' || session.status === 'paused');
+    return isCounting ? 'taken' : 'replaceable';
+  }
+
+  /**
+   * Saves an imported list
+   * An earlier import with the same ID is only replaced when asked to; other lists never are
+   *
+   * @param list - List metadata entered by the operator
+   * @param items - Validated items from the import preview
+   * @param replace - Whether to replace an earlier import with the same ID
+   * @returns Promise resolving to the saved list
+   * @throws If the ID is taken, or belongs to an earlier import and replace is not set
+   */
+  async saveImportedList(
+    list: Pick<InventoryList, 'id' | 'name' | 'description'>,
+    items: ExpectedItem[],
+    replace = false
+  ): Promise<InventoryList> {
+    const status = await this.getListIdStatus(list.id);
+    if (status === 'taken' || (status === 'replaceable' && !replace)) {
+      throw new Error(`List ID ${list.id} is already in use`);
+    }
+
+    const importedList: InventoryList = { ...list, items, origin: 'import' };
+    const lists = await this.storageService.getInventoryLists();
+    await this.storageService.saveInventoryLists([
+      ...lists.filter(existing => existing.id !== importedList.id),
+      importedList,
+    ]);
+    return importedList;
+  }
+}
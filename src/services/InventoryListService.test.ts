@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { InventoryListService } from './InventoryListService';
+import { SyncService } from './SyncService';
+import { CountSession, OutboxEntry } from '../types';
+
+/**
+ * Reads the outbox as stored, bypassing the services
+ */
+async function storedOutbox(): Promise<OutboxEntry[]> {
+  return JSON.parse((await AsyncStorage.getItem('outbox')) || '[]');
+}
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: {
+    fetch: jest.fn(async () => ({ isConnected: false })),
+    addEventListener: jest.fn(),
+  },
+}));
+
+describe('InventoryListService', () => {
+  const service = InventoryListService.getInstance();
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await service.startSession('warehouse-a');
+  });
+
+  afterEach(() => {
+    SyncService.getInstance().stop();
+    jest.restoreAllMocks();
+  });
+
+  describe('count session history', () => {
+    it('keeps the stored sessions when they cannot be read while starting a count', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const key = 'count_sessions_warehouse-a';
+      const before = await AsyncStorage.getItem(key);
+      const getItem = AsyncStorage.getItem as unknown as jest.Mock<(key: string) => Promise<string | null>>;
+      const read = getItem.getMockImplementation()!;
+      getItem.mockImplementation(async requested => {
+        if (requested === key) throw new Error('Disk I/O error');
+        return read(requested);
+      });
+
+      await expect(service.startSession('warehouse-a')).rejects.toThrow('Disk I/O error');
+
+      getItem.mockImplementation(read);
+      const sessions: CountSession[] = JSON.parse((await AsyncStorage.getItem(key)) || '[]');
+      expect(JSON.stringify(sessions)).toBe(before);
+      expect(sessions).toHaveLength(1);
+    });
+  });
+
+  describe('supervisor review', () => {
+    /**
+     * Counts a few units of the first article and completes the count
+     */
+    async function completeCount(): Promise<string> {
+      await service.scanItem('12345', 3, 'manual');
+      const report = await service.completeSession();
+      return report!.sessionId!;
+    }
+
+    /**
+     * Returns the review of the report queued for a session
+     */
+    async function queuedReview(sessionId: string) {
+      const submissions = (await storedOutbox()).filter(
+        entry => entry.type === 'report_submission' && entry.payload.sessionId === sessionId
+      );
+      expect(submissions).toHaveLength(1);
+      return submissions[0].type === 'report_submission' ? submissions[0].payload.report.review : undefined;
+    }
+
+    it('queues the report with the decision for the server', async () => {
+      const sessionId = await completeCount();
+
+      await service.reviewItems(sessionId, ['12345'], 'accepted');
+
+      const review = await queuedReview(sessionId);
+      expect(review?.items).toEqual([
+        expect.objectContaining({ articleNumber: '12345', decision: 'accepted', originalQuantity: 3 }),
+      ]);
+    });
+
+    it('queues the report with the recount order for the server', async () => {
+      const sessionId = await completeCount();
+
+      await service.orderRecount(sessionId, ['12345', '67890']);
+
+      const review = await queuedReview(sessionId);
+      expect(review?.items.map(item => [item.articleNumber, item.decision])).toEqual([
+        ['12345', 'recount'],
+        ['67890', 'recount'],
+      ]);
+      expect(review?.items[0].recountListId).toBeDefined();
+    });
+  });
+
+  describe('unexpected GS1 barcodes', () => {
+    const barcode = '(01)09501101530003(10)AB12';
+
+    it('records the item under its GTIN', async () => {
+      const result = await service.scanItem(barcode, 1, 'camera');
+
+      expect(result.status).toBe('unexpected');
+      expect(result.unexpectedItem?.barcode).toBe('09501101530003');
+    });
+
+    it('stores a description under the barcode returned by the scan', async () => {
+      const result = await service.scanItem(barcode, 1, 'camera');
+
+      const saved = await service.setUnexpectedItemDescription(result.unexpectedItem!.barcode, 'Spare filter');
+
+      expect(saved).toBe(true);
+      expect(service.getUnexpectedItems()).toEqual([
+        expect.objectContaining({ barcode: '09501101530003', description: 'Spare filter' }),
+      ]);
+    });
+
+    it('reports that the raw barcode is not an unexpected item', async () => {
+      await service.scanItem(barcode, 1, 'camera');
+
+      expect(await service.setUnexpectedItemDescription(barcode, 'Spare filter')).toBe(false);
+    });
+  });
+});
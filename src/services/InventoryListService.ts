@@ -3,32 +3,184 @@
  * 
  * This service handles all operations related to inventory lists, including:
  * - Loading and managing inventory data
- * - Tracking scanned items during inventory checks
- * - Calculating missing or discrepant items
- * - Synchronizing data with a remote server (when connected)
+ * - Seeding the lists bundled with the app into storage and upgrading them
+ * - Count sessions per list (start, pause, resume, complete, archive) with their history
+ * - Comparing two count sessions of a list to show stock movement
+ * - Tracking scanned items during inventory checks in an append-only scan log,
+ *   one at a time or as a batch of barcodes captured together
+ * - Recording serial numbers of serialized items and rejecting duplicate serials
+ * - Location-first counting: a scanned location label sets the bin later scans count against
+ * - Resolving the scanner settings (allowed symbologies, check digits) per list
+ * - Correcting counts (undo, decrement, set quantity) with a recorded reason
+ * - Stamping the logged in operator on scans, corrections and reports
+ * - Searching, filtering and sorting the items of the list being counted
+ * - Blind counts that hide expected quantities until the report is frozen
+ * - Supervisor review of completed counts: accepting or rejecting variances, or
+ *   recounting selected articles in a recount list whose result updates the report
+ * - Collecting unexpected items that are scanned but not on the list
+ * - Calculating missing or discrepant items, grouped into shortages, overages and matches
+ * - Synchronizing data with a remote server, queuing uploads while offline
+ * - Collaborative counting: each device uploads its own partial count of a list,
+ *   and the partial counts of all devices are merged into a combined total
  * 
  * It implements the Singleton pattern to ensure consistent state across the app.
  */
-import { InventoryList, ExpectedItem, MissingItem } from '../types';
+import {
+  BarcodeMatch,
+  BatchScan,
+  BatchScanResult,
+  CountSession,
+  DevicePartialCount,
+  InventoryList,
+  ExpectedItem,
+  ItemQuery,
+  MissingItem,
+  ApiResult,
+  DiscrepancyReport,
+  OutboxStatus,
+  RecountSource,
+  ScanEvent,
+  ScanEventQuery,
+  ScanResult,
+  ScanSource,
+  ScannerSettings,
+  SessionComparison,
+  StorageLocation,
+  SyncSummary,
+  UnexpectedItem,
+} from '../types';
 import { StorageService } from './StorageService';
-import NetInfo from '@react-native-community/netinfo';
+import { ApiService } from './ApiService';
+import { SyncService } from './SyncService';
+import { OperatorService } from './OperatorService';
+import {
+  deriveCountedSerials,
+  deriveLocationCounts,
+  deriveScannedCounts,
+  filterScanEvents,
+  findLastUndoableScan,
+} from '../utils/scanLog';
+import { generateId } from '../utils/ids';
+import { combinePartialCounts, mergePartialCounts } from '../utils/countMerge';
+import { deriveOperators } from '../utils/operators';
+import { applyRecount, buildRecountList, recordReviewDecision } from '../utils/review';
+import { buildDiscrepancyReport, buildLocationBreakdown, toMissingItem } from '../utils/discrepancies';
+import { validateInventoryLists } from '../utils/listValidation';
+import { compareReports } from '../utils/sessionComparison';
+import { buildBarcodeIndex, resolveBarcode } from '../utils/barcodeIndex';
+import { buildLocationIndex } from '../utils/locations';
+import { queryItems } from '../utils/itemQuery';
+import bundledLists from '../config/inventory-lists.json';
+import defaultScannerSettings from '../config/scanner-config.json';
+
+/**
+ * Largest quantity a single scan may add. Guards against typos such as an
+ * article number entered into the quantity field.
+ */
+export const MAX_SCAN_QUANTITY = 9999;
+
+/**
+ * Checks that a scan quantity is a whole number between 1 and MAX_SCAN_QUANTITY
+ *
+ * @param quantity - Quantity to validate
+ * @returns True if the quantity may be recorded
+ */
+export function isValidScanQuantity(quantity: number): boolean {
+  return Number.isInteger(quantity) && quantity >= 1 && quantity <= MAX_SCAN_QUANTITY;
+}
+
+/**
+ * Checks whether a list was created on the device rather than downloaded from the server
+ *
+ * @param list - List to check
+ * @returns True if the list must be kept when the server's lists are downloaded
+ */
+function isLocalList(list: InventoryList): boolean {
+  return list.origin !== undefined && list.origin !== 'remote';
+}
+
+/**
+ * Returns the key under which an unmatched scan is collected as unexpected item
+ * GS1 codes are grouped by GTIN, so units with different lots or serials add up
+ *
+ * @param event - A scan that matched no article
+ * @returns The GTIN for GS1 codes, the raw barcode otherwise
+ */
+function unexpectedBarcodeOf(event: Pick<ScanEvent, 'rawBarcode' | 'gs1'>): string {
+  return event.gs1?.gtin || event.rawBarcode;
+}
+
+/**
+ * Finds the session of a list that is still being counted
+ *
+ * @param sessions - All sessions of a list, oldest first
+ * @returns The newest active or paused session, or null if every count is finished
+ */
+function findOpenSession(sessions: CountSession[]): CountSession | null {
+  for (let i = sessions.length - 1; i >= 0; i--) {
+    if (sessions[i].status === 'active' || sessions[i].status === 'paused') {
+      return sessions[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the count round a session shares its counts in
+ *
+ * @param session - A count session
+ * @returns The round the session joined, or the session's own ID for sessions counted alone
+ */
+function roundOf(session: CountSession): string {
+  return session.roundId || session.id;
+}
 
 export class InventoryListService {
   // Singleton instance
   private static instance: InventoryListService;
   // Reference to local storage service
   private storageService: StorageService;
+  // Client for the remote inventory API
+  private apiService: ApiService;
+  // Outbox for uploads that must reach the server eventually
+  private syncService: SyncService;
+  // Operator logged in on the device, stamped on every recorded event
+  private operatorService: OperatorService;
   // Currently active inventory list
   private currentList: InventoryList | null = null;
-  // Map to track scanned items and their quantities
+  // Article and alias barcodes of the current list, for constant-time scan lookups
+  private barcodeIndex: Map<string, BarcodeMatch> = new Map();
+  // Location label barcodes of the current list
+  private locationIndex: Map<string, StorageLocation> = new Map();
+  // Location the operator scanned last; scans and corrections are recorded against it
+  private currentLocation: StorageLocation | null = null;
+  // Count session of the current list that scans are recorded in
+  private currentSession: CountSession | null = null;
+  // Append-only log of every scan recorded in the current session
+  private scanEvents: ScanEvent[] = [];
+  // Scanned quantities per article, derived from scanEvents
   private scannedItems: Map<string, number> = new Map();
+  // Counted serial numbers of serialized articles, derived from scanEvents
+  private countedSerials: Map<string, string[]> = new Map();
+  // Scanned barcodes that are not on the current list, keyed by barcode
+  private unexpectedItems: Map<string, UnexpectedItem> = new Map();
+  // Latest known partial counts of all devices counting the current list, including this one
+  private partialCounts: DevicePartialCount[] = [];
+  // ID of this device, generated on first use
+  private deviceId: string | null = null;
+  // Seeding of the bundled lists, shared by all callers so it runs once per app start
+  private bundledListsSeeding: Promise<void> | null = null;
 
   /**
    * Private constructor to enforce the Singleton pattern
-   * Initializes the storage service
+   * Initializes the storage, API, sync and operator services and starts background sync
    */
   private constructor() {
     this.storageService = StorageService.getInstance();
+    this.apiService = ApiService.getInstance();
+    this.syncService = SyncService.getInstance();
+    this.operatorService = OperatorService.getInstance();
+    this.syncService.start();
   }
 
   /**
@@ -52,24 +204,30 @@ export class InventoryListService {
    */
   async loadInventoryLists(): Promise<InventoryList[]> {
     try {
+      if (!this.bundledListsSeeding) {
+        this.bundledListsSeeding = this.seedBundledLists();
+      }
+      await this.bundledListsSeeding;
+
       // Try to fetch from local storage first
       const localLists = await this.storageService.getInventoryLists();
-      
-      // Check network connectivity
-      const networkState = await NetInfo.fetch();
-      if (networkState.isConnected) {
-        try {
-          // TODO: Implement API call to fetch latest lists
-          // const remoteLists = await api.fetchInventoryLists();
-          // await this.storageService.saveInventoryLists(remoteLists);
-          // return remoteLists;
-          return localLists;
-        } catch (error) {
-          console.warn('Failed to fetch remote lists, using local data:', error);
-          return localLists;
-        }
+
+      // Replace the local copy with the server's lists when they can be downloaded,
+      // keeping lists that were created on the device
+      const remoteLists = await this.apiService.fetchInventoryLists();
+      if (remoteLists.ok) {
+        const remoteIds = new Set(remoteLists.data.map(list => list.id));
+        const lists = [
+          ...remoteLists.data.map(list => ({ ...list, origin: 'remote' as const })),
+          ...localLists.filter(list => isLocalList(list) && !remoteIds.has(list.id)),
+        ];
+        await this.storageService.saveInventoryLists(lists);
+        return lists;
+      }
+
+      if (remoteLists.error.type !== 'offline') {
+        console.warn('Failed to fetch remote lists, using local data:', remoteLists.error.message);
       }
-      
       return localLists;
     } catch (error) {
       console.error('Error loading inventory lists:', error);
@@ -78,18 +236,478 @@ export class InventoryListService {
   }
 
   /**
-   * Sets the current active inventory list and loads its scan state
+   * Copies the lists shipped in config/inventory-lists.json into storage on first run,
+   * and replaces them when the bundled file's version changes
+   * Lists downloaded or imported under the same ID take precedence over bundled ones.
+   * Scan progress is stored per list ID, so it survives for lists that are still bundled.
+   */
+  private async seedBundledLists(): Promise<void> {
+    try {
+      const version = bundledLists.version;
+      if ((await this.storageService.getBundledListsVersion()) === version) return;
+
+      const { lists, errors } = validateInventoryLists(bundledLists.inventoryLists as unknown);
+      if (errors.length > 0) {
+        console.warn('Skipping invalid bundled inventory lists:', errors);
+      }
+
+      // Drop the previous version's bundled lists, including lists no longer shipped
+      const keptLists = (await this.storageService.getInventoryLists())
+        .filter(list => list.origin !== 'bundled');
+      const keptIds = new Set(keptLists.map(list => list.id));
+      const seededLists = lists
+        .filter(list => !keptIds.has(list.id))
+        .map(list => ({ ...list, origin: 'bundled' as const }));
+
+      await this.storageService.saveInventoryLists([...keptLists, ...seededLists]);
+      await this.storageService.saveBundledListsVersion(version);
+    } catch (error) {
+      // Seeding is retried on the next app start
+      console.error('Error seeding bundled inventory lists:', error);
+    }
+  }
+
+  /**
+   * Sets the current active inventory list and opens its count session
+   * Resumes the list's open session, or starts a new one if every earlier count is finished
    * 
    * @param listId - ID of the inventory list to set as active
    */
   async setCurrentList(listId: string): Promise<void> {
     const lists = await this.loadInventoryLists();
-    this.currentList = lists.find(list => list.id === listId) || null;
+    this.selectList(lists.find(list => list.id === listId) || null);
     
     if (this.currentList) {
-      // Load previously scanned items for this list
-      this.scannedItems = await this.storageService.getScannedItems(listId);
+      const openSession = findOpenSession(await this.getSessions(listId));
+      if (!openSession) {
+        await this.startSession(listId);
+        return;
+      }
+      await this.loadSession(openSession);
+      if (openSession.status === 'paused') {
+        await this.resumeSession();
+      }
+    }
+  }
+
+  /**
+   * Makes a list current and indexes its barcodes
+   * The session of the previous list is closed; callers load one of the new list
+   *
+   * @param list - The list to select, or null to clear the selection
+   */
+  private selectList(list: InventoryList | null): void {
+    this.currentList = list;
+    this.barcodeIndex = buildBarcodeIndex(list ? list.items : []);
+    this.locationIndex = buildLocationIndex(list?.locations || []);
+    this.currentLocation = null;
+    this.currentSession = null;
+  }
+
+  /**
+   * Returns all count sessions of a list
+   * Counts recorded before sessions existed are turned into a session whose ID is the list ID
+   *
+   * @param listId - ID of the inventory list
+   * @returns Promise resolving to the sessions, oldest first
+   */
+  async getSessions(listId: string): Promise<CountSession[]> {
+    const sessions = await this.storageService.getCountSessions(listId);
+    if (sessions.length > 0) return sessions;
+
+    const legacyEvents = await this.storageService.getScanEvents(listId);
+    const legacyCounts = await this.storageService.getScannedItems(listId);
+    if (legacyEvents.length === 0 && legacyCounts.size === 0) return [];
+
+    const legacySession: CountSession = {
+      id: listId,
+      listId,
+      status: 'active',
+      startedAt: legacyEvents.length > 0 ? legacyEvents[0].timestamp : new Date().toISOString(),
+      endedAt: null,
+      pausedAt: null,
+    };
+    await this.storageService.saveCountSessions(listId, [legacySession]);
+    return [legacySession];
+  }
+
+  /**
+   * Returns the count session scans are currently recorded in
+   *
+   * @returns The current session or null if no list is active
+   */
+  getCurrentSession(): CountSession | null {
+    return this.currentSession;
+  }
+
+  /**
+   * Starts a fresh count of a list and makes it the current list
+   * A session of the list that is still open is completed first, so its report is kept
+   *
+   * @param listId - ID of the inventory list to count
+   * @param blindCount - Whether to hide expected quantities until the report; defaults to the list's setting
+   * @returns Promise resolving to the new session, or null if the list does not exist
+   */
+  async startSession(listId: string, blindCount?: boolean): Promise<CountSession | null> {
+    if (this.currentList?.id !== listId) {
+      const lists = await this.loadInventoryLists();
+      this.selectList(lists.find(list => list.id === listId) || null);
+    }
+    if (!this.currentList) return null;
+
+    const openSession = findOpenSession(await this.getSessions(listId));
+    if (openSession) {
+      await this.loadSession(openSession);
+      await this.completeSession();
+    }
+
+    const sessionId = generateId('session');
+    const session: CountSession = {
+      id: sessionId,
+      listId,
+      status: 'active',
+      startedAt: new Date().toISOString(),
+      endedAt: null,
+      pausedAt: null,
+      blindCount: blindCount ?? this.currentList.blindCount === true,
+      roundId: this.currentList.countRound || sessionId,
+    };
+    await this.saveSession(session);
+    await this.loadSession(session);
+    return session;
+  }
+
+  /**
+   * Checks whether the current session is a blind count
+   * Blind counts hide expected quantities and completion while counting;
+   * they are revealed in the report frozen at completion
+   *
+   * @returns True if expected quantities must not be shown
+   */
+  isBlindCount(): boolean {
+    return this.currentSession?.blindCount === true;
+  }
+
+  /**
+   * Pauses the current session; scans are rejected until it is resumed
+   *
+   * @returns True if the session was paused, false if it was not active
+   */
+  async pauseSession(): Promise<boolean> {
+    if (this.currentSession?.status !== 'active') return false;
+
+    await this.saveSession({ ...this.currentSession, status: 'paused', pausedAt: new Date().toISOString() });
+    return true;
+  }
+
+  /**
+   * Resumes the current session after a pause
+   *
+   * @returns True if the session was resumed, false if it was not paused
+   */
+  async resumeSession(): Promise<boolean> {
+    if (this.currentSession?.status !== 'paused') return false;
+
+    await this.saveSession({ ...this.currentSession, status: 'active', pausedAt: null });
+    return true;
+  }
+
+  /**
+   * Completes the current session, freezes its report and queues it for submission
+   * No further scans or corrections are accepted for the session
+   *
+   * @returns Promise resolving to the frozen report, or null if no open session is active
+   */
+  async completeSession(): Promise<DiscrepancyReport | null> {
+    const session = this.currentSession;
+    if (!session || (session.status !== 'active' && session.status !== 'paused')) return null;
+
+    const report = await this.generateDiscrepancyReport();
+    await this.saveSession({ ...session, status: 'completed', endedAt: new Date().toISOString(), pausedAt: null });
+    if (report) {
+      await this.submitReport(report);
+    }
+    if (report && this.currentList?.recountOf) {
+      await this.applyRecountResult(this.currentList.id, this.currentList.recountOf, report);
     }
+    return report;
+  }
+
+  /**
+   * Records a supervisor decision on the variances of articles in a completed count
+   * The decision is saved with the count's report, which is submitted to the server again
+   *
+   * @param sessionId - ID of the completed count session
+   * @param articleNumbers - Articles the decision applies to
+   * @param decision - Whether the variances are accepted or rejected
+   * @returns Promise resolving to the updated report, or null if the report cannot be reviewed
+   */
+  async reviewItems(
+    sessionId: string,
+    articleNumbers: string[],
+    decision: 'accepted' | 'rejected'
+  ): Promise<DiscrepancyReport | null> {
+    const report = await this.getReviewableReport(sessionId);
+    if (!report || articleNumbers.length === 0) return null;
+
+    const reviewed = recordReviewDecision(
+      report,
+      articleNumbers,
+      decision,
+      new Date().toISOString(),
+      this.operatorService.getOperatorRef()
+    );
+    await this.storageService.saveDiscrepancyReport(sessionId, reviewed);
+    await this.submitReport(reviewed);
+    return reviewed;
+  }
+
+  /**
+   * Orders a recount of articles in a completed count
+   * A recount list with only these articles is added to the inventory lists;
+   * completing a count of it replaces their figures in this count's report.
+   * The report with the recount order is submitted to the server again
+   *
+   * @param sessionId - ID of the completed count session
+   * @param articleNumbers - Articles to recount
+   * @returns Promise resolving to the updated report, or null if the report cannot be reviewed
+   */
+  async orderRecount(sessionId: string, articleNumbers: string[]): Promise<DiscrepancyReport | null> {
+    const report = await this.getReviewableReport(sessionId);
+    if (!report || articleNumbers.length === 0) return null;
+
+    const lists = await this.storageService.getInventoryLists();
+    const recountList = buildRecountList(report, sessionId, articleNumbers, generateId('recount'));
+    const originalList = lists.find(list => list.id === report.listId);
+    if (originalList?.scannerSettings) {
+      recountList.scannerSettings = originalList.scannerSettings;
+    }
+    if (originalList?.blindCount) {
+      recountList.blindCount = true;
+    }
+    await this.storageService.saveInventoryLists([...lists, recountList]);
+
+    const reviewed = recordReviewDecision(
+      report,
+      articleNumbers,
+      'recount',
+      new Date().toISOString(),
+      this.operatorService.getOperatorRef(),
+      recountList.id
+    );
+    await this.storageService.saveDiscrepancyReport(sessionId, reviewed);
+    await this.submitReport(reviewed);
+    return reviewed;
+  }
+
+  /**
+   * Checks whether the logged in operator can review the report of a session
+   *
+   * @param sessionId - ID of the count session
+   * @returns Promise resolving to true for completed counts of lists that are not recount lists
+   */
+  async isReviewable(sessionId: string): Promise<boolean> {
+    return (await this.getReviewableReport(sessionId)) !== null;
+  }
+
+  /**
+   * Loads the report of a completed count for review
+   * Returns null if the operator may not review, the count is not completed,
+   * or it is a count of a recount list, whose result is reviewed in the original report
+   */
+  private async getReviewableReport(sessionId: string): Promise<DiscrepancyReport | null> {
+    await this.operatorService.ensureLoaded();
+    if (!this.operatorService.canReview()) return null;
+    const report = await this.storageService.getDiscrepancyReport(sessionId);
+    if (!report) return null;
+
+    const session = (await this.getSessions(report.listId)).find(existing => existing.id === sessionId);
+    if (session?.status !== 'completed') return null;
+    const list = (await this.storageService.getInventoryLists()).find(existing => existing.id === report.listId);
+    return list?.recountOf ? null : report;
+  }
+
+  /**
+   * Replaces the figures of the recounted articles in the report under review
+   *
+   * @param recountListId - ID of the recount list that was counted
+   * @param source - Count whose report ordered the recount
+   * @param recountReport - Report of the completed recount
+   */
+  private async applyRecountResult(
+    recountListId: string,
+    source: RecountSource,
+    recountReport: DiscrepancyReport
+  ): Promise<void> {
+    const report = await this.storageService.getDiscrepancyReport(source.sessionId);
+    if (!report) return;
+
+    const updated = applyRecount(report, recountListId, recountReport, recountReport.generatedAt);
+    if (updated === report) return;
+    await this.storageService.saveDiscrepancyReport(source.sessionId, updated);
+    await this.submitReport(updated);
+  }
+
+  /**
+   * Queues the frozen report of a completed session for submission to the server
+   * A report that is submitted again, e.g. after a review decision or a recount,
+   * replaces an undelivered earlier submission
+   *
+   * @param report - Report of a completed session
+   */
+  private async submitReport(report: DiscrepancyReport): Promise<void> {
+    if (!report.sessionId) return;
+    await this.syncService.enqueueReportSubmission({
+      listId: report.listId,
+      sessionId: report.sessionId,
+      report,
+      timestamp: new Date().toISOString(),
+      operator: this.operatorService.getOperatorRef(),
+    });
+  }
+
+  /**
+   * Archives a completed session so it is hidden from the default history
+   *
+   * @param listId - ID of the inventory list the session belongs to
+   * @param sessionId - ID of the session to archive
+   * @returns True if the session was archived, false if it is not completed
+   */
+  async archiveSession(listId: string, sessionId: string): Promise<boolean> {
+    const session = (await this.getSessions(listId)).find(existing => existing.id === sessionId);
+    if (session?.status !== 'completed') return false;
+
+    await this.saveSession({ ...session, status: 'archived' });
+    return true;
+  }
+
+  /**
+   * Retrieves the report of a session, frozen when the session was completed
+   *
+   * @param sessionId - ID of the session
+   * @returns Promise resolving to the report, or null if none was generated
+   */
+  async getSessionReport(sessionId: string): Promise<DiscrepancyReport | null> {
+    return await this.storageService.getDiscrepancyReport(sessionId);
+  }
+
+  /**
+   * Compares two count sessions of the same list
+   * The current session is compared with its live counts unless it is completed,
+   * all others with their saved report
+   *
+   * @param firstSessionId - ID of one session
+   * @param secondSessionId - ID of another session of the same list
+   * @returns Promise resolving to the comparison, or null if a session has no report
+   */
+  async compareSessions(firstSessionId: string, secondSessionId: string): Promise<SessionComparison | null> {
+    const first = await this.getComparableReport(firstSessionId);
+    const second = await this.getComparableReport(secondSessionId);
+    if (!first || !second || first.listId !== second.listId) return null;
+
+    return compareReports(first, second);
+  }
+
+  /**
+   * Returns the report of a session for comparison, live for the current session
+   */
+  private async getComparableReport(sessionId: string): Promise<DiscrepancyReport | null> {
+    if (this.currentSession?.id === sessionId) {
+      return await this.getDiscrepancyReport();
+    }
+    return await this.getSessionReport(sessionId);
+  }
+
+  /**
+   * Stores a changed session in its list's history
+   * Keeps the current session in sync when it is the one that changed
+   *
+   * @param session - The new or updated session
+   */
+  private async saveSession(session: CountSession): Promise<void> {
+    const sessions = await this.storageService.getCountSessions(session.listId);
+    const index = sessions.findIndex(existing => existing.id === session.id);
+    if (index >= 0) {
+      sessions[index] = session;
+    } else {
+      sessions.push(session);
+    }
+    await this.storageService.saveCountSessions(session.listId, sessions);
+
+    if (this.currentSession?.id === session.id) {
+      this.currentSession = session;
+    }
+  }
+
+  /**
+   * Makes a session current and loads its scan log and unexpected items
+   * The session only becomes current once its scan log was read, so a log that
+   * cannot be read is never overwritten by new scans. The operators are read
+   * first, so scans are never recorded without the login check
+   *
+   * @param session - Session of the current list to load
+   * @throws If the scan log of the session cannot be read
+   */
+  private async loadSession(session: CountSession): Promise<void> {
+    await this.operatorService.ensureLoaded();
+    let scanEvents = await this.storageService.getScanEvents(session.id);
+    if (scanEvents.length === 0 && session.id === session.listId) {
+      scanEvents = await this.migrateLegacyCounts(session.listId);
+    }
+    this.currentSession = session;
+    this.scanEvents = scanEvents;
+    this.scannedItems = deriveScannedCounts(this.scanEvents);
+    this.countedSerials = deriveCountedSerials(this.scanEvents);
+    // Continue in the location of the most recent scan
+    const lastLocationId = [...this.scanEvents].reverse().find(event => event.locationId)?.locationId;
+    this.currentLocation = this.currentList?.locations?.find(location => location.id === lastLocationId) || null;
+
+    const unexpectedItems = await this.storageService.getUnexpectedItems(session.id);
+    this.unexpectedItems = new Map(unexpectedItems.map(item => [item.barcode, item]));
+    // Other devices' counts are told apart from this device's by the device ID
+    await this.getDeviceId();
+    this.partialCounts = await this.storageService.getPartialCounts(session.listId);
+  }
+
+  /**
+   * Checks whether the current session accepts scans and corrections
+   * Once operators are configured, nothing is recorded without a logged in operator
+   */
+  private isRecording(): boolean {
+    return this.currentSession?.status === 'active' && this.hasOperator();
+  }
+
+  /**
+   * Checks whether an operator is logged in, or logging in is not required
+   */
+  private hasOperator(): boolean {
+    return !this.operatorService.isLoginRequired() || this.operatorService.getCurrentOperator() !== null;
+  }
+
+  /**
+   * Converts count totals saved before the scan log existed into 'legacy' scan events
+   * so that earlier progress is kept and stays visible in the log
+   *
+   * @param listId - ID of the inventory list to migrate, which is also the ID of its legacy session
+   * @returns Promise resolving to the migrated events, or empty array if there was nothing to migrate
+   */
+  private async migrateLegacyCounts(listId: string): Promise<ScanEvent[]> {
+    const legacyCounts = await this.storageService.getScannedItems(listId);
+    if (legacyCounts.size === 0) return [];
+
+    const timestamp = new Date().toISOString();
+    const events: ScanEvent[] = Array.from(legacyCounts, ([articleNumber, quantity]) => ({
+      id: generateId('scan'),
+      listId,
+      kind: 'scan',
+      timestamp,
+      source: 'legacy',
+      rawBarcode: articleNumber,
+      articleNumber,
+      quantity,
+    }));
+    await this.storageService.saveScanEvents(listId, events);
+    return events;
   }
 
   /**
@@ -101,84 +719,647 @@ export class InventoryListService {
     return this.currentList;
   }
 
+  /**
+   * Returns the scanner settings for the current list
+   * Per-list settings override the global settings, which override the bundled defaults
+   *
+   * @returns Promise resolving to the effective scanner settings
+   */
+  async getScannerSettings(): Promise<ScannerSettings> {
+    const globalSettings = await this.storageService.getScannerSettings();
+    return {
+      ...(defaultScannerSettings as ScannerSettings),
+      ...globalSettings,
+      ...this.currentList?.scannerSettings,
+    };
+  }
+
+  /**
+   * Changes the global scanner settings used by lists without their own settings
+   *
+   * @param settings - Allowed symbologies and check-digit validation
+   */
+  async saveScannerSettings(settings: ScannerSettings): Promise<void> {
+    await this.storageService.saveScannerSettings(settings);
+  }
+
   /**
    * Records a scanned item in the current inventory
-   * Increments the count for the item if it exists in the current list
+   * Every scan is appended to the scan log. Scans that resolve to an item of the
+   * current list count towards its quantity; all others are collected as
+   * unexpected items instead of being discarded. Pack barcodes add their
+   * multiplier for each scanned unit, e.g. 12 per scan of a 12-pack. GS1 codes
+   * are matched by their GTIN; lot, expiry and serial are kept on the scan record.
+   * Serialized items are counted one unit at a time, each with a serial number
+   * that may only be counted once per session.
+   * On lists with locations, scanning a location label sets the current location;
+   * item scans are only accepted once a location was scanned and count against it
    * 
-   * @param barcode - Article number/barcode of the scanned item
-   * @returns True if the item was found and recorded, false otherwise
+   * @param barcode - Article number or alias barcode of the scanned item
+   * @param quantity - Number of scanned units (or packs), e.g. 24 for a full tray
+   * @param source - How the barcode was entered
+   * @param serial - Serial number entered by the operator, used when the barcode carries none
+   * @returns The outcome of the scan, including the matched item and its new total
    */
-  async scanItem(barcode: string): Promise<boolean> {
-    if (!this.currentList) return false;
+  async scanItem(
+    barcode: string,
+    quantity: number = 1,
+    source: ScanSource = 'camera',
+    serial?: string
+  ): Promise<ScanResult> {
+    if (!this.currentList) return { status: 'no_list', quantity };
+    if (!this.hasOperator()) return { status: 'operator_required', quantity };
+    if (!this.isRecording()) return { status: 'session_closed', quantity };
 
-    const item = this.currentList.items.find(
-      item => item.articleNumber === barcode
-    );
+    const location = this.locationIndex.get(barcode);
+    if (location) {
+      this.currentLocation = location;
+      return { status: 'location_set', quantity, location };
+    }
+    if (this.locationIndex.size > 0 && !this.currentLocation) return { status: 'location_required', quantity };
+    if (!isValidScanQuantity(quantity)) return { status: 'invalid_quantity', quantity };
 
-    if (item) {
-      const currentCount = this.scannedItems.get(barcode) || 0;
-      this.scannedItems.set(barcode, currentCount + 1);
-      
-      // Save scanned items to local storage
-      await this.storageService.saveScannedItems(
-        this.currentList.id,
-        this.scannedItems
+    const { match, gs1 } = resolveBarcode(this.barcodeIndex, barcode);
+    const item = match?.item;
+    const units = quantity * (match?.multiplier || 1);
+    const unitSerial = item?.serialized ? gs1?.serial || serial?.trim() || undefined : undefined;
+
+    if (item?.serialized) {
+      if (units !== 1) return { status: 'invalid_quantity', quantity, item };
+      if (!unitSerial) return { status: 'serial_required', quantity, item, gs1: gs1 || undefined };
+      if (this.countedSerials.get(item.articleNumber)?.includes(unitSerial)) {
+        return { status: 'duplicate_serial', quantity, item, serial: unitSerial, gs1: gs1 || undefined };
+      }
+    }
+    const timestamp = new Date().toISOString();
+
+    await this.appendScanEvent({
+      id: generateId('scan'),
+      listId: this.currentList.id,
+      kind: 'scan',
+      timestamp,
+      source,
+      rawBarcode: barcode,
+      articleNumber: item ? item.articleNumber : null,
+      quantity: units,
+      gs1: gs1 || undefined,
+      serial: unitSerial,
+      locationId: this.currentLocation?.id,
+      operator: this.operatorService.getOperatorRef(),
+    });
+
+    if (!item) {
+      const unexpectedItem = await this.adjustUnexpectedItem(
+        unexpectedBarcodeOf({ rawBarcode: barcode, gs1: gs1 || undefined }),
+        quantity,
+        timestamp
       );
-      return true;
+      return { status: 'unexpected', quantity, unexpectedItem: unexpectedItem || undefined, gs1: gs1 || undefined };
+    }
+    return {
+      status: 'counted',
+      quantity,
+      item,
+      multiplier: match?.multiplier,
+      scannedQuantity: this.scannedItems.get(item.articleNumber) || 0,
+      combinedQuantity: this.getCombinedCounts().get(item.articleNumber) || 0,
+      gs1: gs1 || undefined,
+      serial: unitSerial,
+      location: this.currentLocation || undefined,
+    };
+  }
+
+  /**
+   * Records several barcodes captured together, e.g. all labels on a shelf front
+   * Each barcode is scanned in turn with the same rules as scanItem; a rejected
+   * barcode does not stop the rest of the batch
+   * 
+   * @param scans - Barcodes with the quantity to count for each
+   * @param source - How the barcodes were entered
+   * @returns The outcome of every barcode, in the order of scans
+   */
+  async scanBatch(scans: BatchScan[], source: ScanSource = 'camera'): Promise<BatchScanResult[]> {
+    const results: BatchScanResult[] = [];
+    for (const scan of scans) {
+      results.push({ barcode: scan.barcode, result: await this.scanItem(scan.barcode, scan.quantity, source) });
+    }
+    return results;
+  }
+
+  /**
+   * Reverts the most recent scan that has not been undone yet
+   * The scan stays in the log; a correction referencing it is appended
+   * 
+   * @param reason - Why the scan is being undone
+   * @returns The scan that was undone, or null if there was nothing to undo
+   */
+  async undoLastScan(reason: string): Promise<ScanEvent | null> {
+    if (!this.isRecording()) return null;
+    const lastScan = findLastUndoableScan(this.scanEvents);
+    if (!lastScan) return null;
+
+    // Never take a count below zero, even if it was already corrected manually
+    const unexpectedBarcode = unexpectedBarcodeOf(lastScan);
+    const currentCount = lastScan.articleNumber
+      ? this.scannedItems.get(lastScan.articleNumber) || 0
+      : this.unexpectedItems.get(unexpectedBarcode)?.count || 0;
+    const delta = -Math.min(lastScan.quantity, currentCount);
+
+    await this.appendCorrection(
+      lastScan.articleNumber,
+      lastScan.rawBarcode,
+      delta,
+      reason,
+      lastScan.locationId,
+      lastScan.id
+    );
+    if (!lastScan.articleNumber) {
+      await this.adjustUnexpectedItem(unexpectedBarcode, delta);
+    }
+    return lastScan;
+  }
+
+  /**
+   * Reduces the scanned quantity of an article by one
+   * Not available for serialized items, whose scans are undone instead so the
+   * counted serials stay accurate. On lists with locations, the count in the
+   * current location is reduced
+   * 
+   * @param articleNumber - Article to decrement
+   * @param reason - Why the count is being reduced
+   * @returns True if the count was reduced, false if it was already zero or the item is serialized
+   */
+  async decrementItem(articleNumber: string, reason: string): Promise<boolean> {
+    const currentCount = this.getCorrectableCount(articleNumber);
+    if (!this.isRecording() || currentCount === 0 || this.isSerialized(articleNumber)) return false;
+
+    await this.appendCorrection(articleNumber, articleNumber, -1, reason, this.currentLocation?.id);
+    return true;
+  }
+
+  /**
+   * Sets the scanned quantity of an article to an exact value
+   * Records the difference to the current count as a correction. On lists with
+   * locations, the quantity is the count in the current location
+   * 
+   * @param articleNumber - Article to correct
+   * @param quantity - The counted quantity, a whole number of zero or more
+   * @param reason - Why the count is being corrected
+   * @returns True if the quantity was valid and recorded, false otherwise (also for serialized items)
+   */
+  async setScannedQuantity(articleNumber: string, quantity: number, reason: string): Promise<boolean> {
+    if (!this.isRecording() || !Number.isInteger(quantity) || quantity < 0) return false;
+    if (this.isSerialized(articleNumber)) return false;
+    if (!this.currentList?.items.some(item => item.articleNumber === articleNumber)) return false;
+
+    const delta = quantity - this.getCorrectableCount(articleNumber);
+    if (delta !== 0) {
+      await this.appendCorrection(articleNumber, articleNumber, delta, reason, this.currentLocation?.id);
+    }
+    return true;
+  }
+
+  /**
+   * Returns the location scans are currently recorded against
+   *
+   * @returns The location scanned last, or null if none was scanned yet
+   */
+  getCurrentLocation(): StorageLocation | null {
+    return this.currentLocation;
+  }
+
+  /**
+   * Returns the scanned quantities per article in the current location
+   *
+   * @returns Map of article numbers to quantities, empty if no location was scanned
+   */
+  getCurrentLocationCounts(): Map<string, number> {
+    if (!this.currentLocation) return new Map();
+    return new Map(deriveLocationCounts(this.scanEvents).get(this.currentLocation.id));
+  }
+
+  /**
+   * Returns the count that corrections of an article apply to: the count in
+   * the current location on lists with locations, otherwise the total
+   */
+  private getCorrectableCount(articleNumber: string): number {
+    const counts = this.locationIndex.size > 0 ? this.getCurrentLocationCounts() : this.scannedItems;
+    return counts.get(articleNumber) || 0;
+  }
+
+  /**
+   * Checks whether an article of the current list is serialized
+   */
+  private isSerialized(articleNumber: string): boolean {
+    return this.barcodeIndex.get(articleNumber)?.item.serialized === true;
+  }
+
+  /**
+   * Returns the serial numbers counted for an article in the current session
+   *
+   * @param articleNumber - Article to get the serials for
+   * @returns Serial numbers in scan order, empty if none were counted
+   */
+  getCountedSerials(articleNumber: string): string[] {
+    return [...(this.countedSerials.get(articleNumber) || [])];
+  }
+
+  /**
+   * Appends a correction for an article or unexpected barcode to the scan log
+   * 
+   * @param articleNumber - Article whose count is corrected, or null for an unexpected barcode
+   * @param barcode - Barcode the correction refers to
+   * @param quantity - Units to add (negative to remove)
+   * @param reason - Why the correction was made
+   * @param locationId - Location whose count is corrected, on lists with locations
+   * @param correctsEventId - Scan being reverted, when undoing
+   */
+  private async appendCorrection(
+    articleNumber: string | null,
+    barcode: string,
+    quantity: number,
+    reason: string,
+    locationId?: string,
+    correctsEventId?: string
+  ): Promise<void> {
+    if (!this.currentList) return;
+
+    await this.appendScanEvent({
+      id: generateId('correction'),
+      listId: this.currentList.id,
+      kind: 'correction',
+      timestamp: new Date().toISOString(),
+      source: 'manual',
+      rawBarcode: barcode,
+      articleNumber,
+      quantity,
+      reason,
+      correctsEventId,
+      locationId,
+      operator: this.operatorService.getOperatorRef(),
+    });
+  }
+
+  /**
+   * Changes the count of an unexpected barcode and persists the bucket
+   * Barcodes whose count drops to zero are removed
+   * 
+   * @param barcode - The unexpected barcode
+   * @param delta - Units to add (negative to remove)
+   * @param timestamp - When the change happened, recorded as the latest scan time for additions
+   * @returns The updated unexpected item, or null if it was removed
+   */
+  private async adjustUnexpectedItem(
+    barcode: string,
+    delta: number,
+    timestamp: string = new Date().toISOString()
+  ): Promise<UnexpectedItem | null> {
+    if (!this.currentSession) return null;
+
+    const existing = this.unexpectedItems.get(barcode);
+    const count = (existing?.count || 0) + delta;
+    let updated: UnexpectedItem | null = null;
+
+    if (count > 0) {
+      updated = {
+        barcode,
+        count,
+        description: existing?.description,
+        firstScannedAt: existing?.firstScannedAt || timestamp,
+        lastScannedAt: delta > 0 ? timestamp : existing?.lastScannedAt || timestamp,
+      };
+      this.unexpectedItems.set(barcode, updated);
+    } else {
+      this.unexpectedItems.delete(barcode);
     }
 
-    return false;
+    await this.storageService.saveUnexpectedItems(this.currentSession.id, this.getUnexpectedItems());
+    return updated;
+  }
+
+  /**
+   * Returns the unexpected items found in the current list, in the order they were first scanned
+   * 
+   * @returns Array of unexpected items with counts and descriptions
+   */
+  getUnexpectedItems(): UnexpectedItem[] {
+    return Array.from(this.unexpectedItems.values());
+  }
+
+  /**
+   * Stores the operator's description of an unexpected barcode
+   * 
+   * @param barcode - The unexpected barcode
+   * @param description - What the item is, as typed by the operator
+   * @returns True if the barcode is a known unexpected item, false otherwise
+   */
+  async setUnexpectedItemDescription(barcode: string, description: string): Promise<boolean> {
+    const existing = this.unexpectedItems.get(barcode);
+    if (!this.currentSession || !this.isRecording() || !existing) return false;
+
+    this.unexpectedItems.set(barcode, { ...existing, description: description.trim() || undefined });
+    await this.storageService.saveUnexpectedItems(this.currentSession.id, this.getUnexpectedItems());
+    return true;
+  }
+
+  /**
+   * Returns the scanned quantities of the current list
+   * 
+   * @returns Map of article numbers to scanned quantities
+   */
+  getScannedItems(): Map<string, number> {
+    return new Map(this.scannedItems);
+  }
+
+  /**
+   * Queries the scan log of the current session
+   * 
+   * @param query - Optional criteria such as article number, source or time range
+   * @returns Matching scan events, oldest first
+   */
+  getScanEvents(query?: ScanEventQuery): ScanEvent[] {
+    return filterScanEvents(this.scanEvents, query);
+  }
+
+  /**
+   * Appends an event to the scan log of the current session and persists the result
+   * Scanned totals are re-derived from the log and queued for upload
+   * 
+   * @param event - The event to record
+   */
+  private async appendScanEvent(event: ScanEvent): Promise<void> {
+    if (!this.currentList || !this.currentSession) return;
+
+    this.scanEvents = [...this.scanEvents, event];
+    this.scannedItems = deriveScannedCounts(this.scanEvents);
+    this.countedSerials = deriveCountedSerials(this.scanEvents);
+
+    // Save the new event and the derived totals to local storage
+    await this.storageService.appendScanEvents(this.currentSession.id, this.scanEvents);
+    await this.storageService.saveScannedItems(
+      this.currentSession.id,
+      this.scannedItems
+    );
+    await this.publishPartialCount(this.currentSession, this.scannedItems);
+  }
+
+  /**
+   * Returns the ID that identifies this device's counts on the server
+   * The ID is generated on first use and kept for the lifetime of the installation
+   *
+   * @returns Promise resolving to the device ID
+   */
+  async getDeviceId(): Promise<string> {
+    if (!this.deviceId) {
+      this.deviceId = await this.storageService.getDeviceId();
+    }
+    if (!this.deviceId) {
+      this.deviceId = generateId('device');
+      await this.storageService.saveDeviceId(this.deviceId);
+    }
+    return this.deviceId;
+  }
+
+  /**
+   * Records this device's counts of a list as a new version of its partial count
+   * and queues it for upload; delivered as soon as the device is online
+   *
+   * @param session - The list's open session
+   * @param scannedItems - Quantities scanned on this device in the session
+   */
+  private async publishPartialCount(session: CountSession, scannedItems: Map<string, number>): Promise<void> {
+    const listId = session.listId;
+    const deviceId = await this.getDeviceId();
+    const stored = await this.storageService.getPartialCounts(listId);
+    const own = stored.find(partial => partial.deviceId === deviceId);
+    const partial: DevicePartialCount = {
+      deviceId,
+      listId,
+      roundId: roundOf(session),
+      version: (own?.version || 0) + 1,
+      updatedAt: new Date().toISOString(),
+      scannedItems: Object.fromEntries(scannedItems),
+    };
+
+    const merged = mergePartialCounts(stored, [partial]);
+    await this.storageService.savePartialCounts(listId, merged);
+    if (this.currentList?.id === listId) {
+      this.partialCounts = merged;
+    }
+
+    await this.syncService.enqueueScanUpload({
+      listId,
+      scannedItems: partial.scannedItems,
+      timestamp: partial.updatedAt,
+      deviceId,
+      version: partial.version,
+      roundId: partial.roundId,
+    });
+  }
+
+  /**
+   * Downloads the partial counts of all devices counting a list and merges them
+   * into the ones stored on this device
+   *
+   * @param listId - ID of the inventory list, defaults to the current list
+   * @returns Promise resolving to the merged partial counts or the error that stopped the download
+   */
+  async refreshPartialCounts(listId?: string): Promise<ApiResult<DevicePartialCount[]>> {
+    const id = listId || this.currentList?.id;
+    if (!id) return { ok: true, data: [] };
+
+    const result = await this.apiService.fetchPartialCounts(id);
+    if (!result.ok) return result;
+
+    try {
+      const merged = mergePartialCounts(await this.storageService.getPartialCounts(id), result.data);
+      await this.storageService.savePartialCounts(id, merged);
+      if (this.currentList?.id === id) {
+        this.partialCounts = merged;
+      }
+      return { ok: true, data: merged };
+    } catch (error) {
+      return { ok: false, error: { type: 'storage', message: String(error) } };
+    }
+  }
+
+  /**
+   * Checks whether other devices can count together with the current session
+   * Only sessions started in a count round set by the server share their counts
+   *
+   * @returns True if the session's round is shared with other devices
+   */
+  isSharedRound(): boolean {
+    return this.currentSession !== null && roundOf(this.currentSession) !== this.currentSession.id;
+  }
+
+  /**
+   * Returns the partial counts other devices reported for the current session
+   * Counts of other count rounds belong to an earlier count and are left out
+   *
+   * @returns One partial count per other device
+   */
+  getOtherDeviceCounts(): DevicePartialCount[] {
+    if (!this.currentSession) return [];
+    const roundId = roundOf(this.currentSession);
+    return this.partialCounts.filter(partial =>
+      partial.deviceId !== this.deviceId && partial.roundId === roundId
+    );
+  }
+
+  /**
+   * Returns the scanned quantities of all devices counting the current list
+   * This device's live counts are added to the partial counts other devices
+   * reported at the last refresh
+   *
+   * @returns Map of article numbers to combined quantities
+   */
+  getCombinedCounts(): Map<string, number> {
+    const own: DevicePartialCount = {
+      deviceId: this.deviceId || '',
+      listId: this.currentList?.id || '',
+      roundId: this.currentSession ? roundOf(this.currentSession) : '',
+      version: 0,
+      updatedAt: '',
+      scannedItems: Object.fromEntries(this.scannedItems),
+    };
+    return combinePartialCounts([own, ...this.getOtherDeviceCounts()]);
+  }
+
+  /**
+   * Finds items of the current list by article number or description, counting progress and order
+   * Progress and remaining quantities are based on the counts of all devices. Blind counts
+   * ignore the progress filter and the remaining sort, as both give the expected quantities away
+   *
+   * @param query - Optional search text, progress filter and sort order
+   * @returns Matching items, in list order unless a sort order is given
+   */
+  getItems(query: ItemQuery = {}): ExpectedItem[] {
+    if (!this.currentList) return [];
+    const effectiveQuery = this.isBlindCount()
+      ? { ...query, progress: undefined, sortBy: query.sortBy === 'remaining' ? undefined : query.sortBy }
+      : query;
+    return queryItems(this.currentList.items, this.getCombinedCounts(), effectiveQuery);
   }
 
   /**
    * Generates a report of missing or discrepant items
-   * Compares expected quantities with actual scanned quantities
+   * Compares expected quantities with the combined counts of all devices in the
+   * session's count round; serial numbers are those counted on this device
    * 
    * @returns Promise resolving to an array of MissingItem objects
    */
   async getMissingItems(): Promise<MissingItem[]> {
-    if (!this.currentList) return [];
+    if (!this.currentList || !this.currentSession) return [];
 
-    const missingItems: MissingItem[] = this.currentList.items.map(item => ({
-      ...item,
-      scannedQuantity: this.scannedItems.get(item.articleNumber) || 0,
-      missing: item.expectedQuantity - (this.scannedItems.get(item.articleNumber) || 0)
-    }));
+    const combinedCounts = this.getCombinedCounts();
+    const missingItems: MissingItem[] = this.currentList.items.map(item =>
+      toMissingItem(
+        item,
+        combinedCounts.get(item.articleNumber) || 0,
+        this.countedSerials.get(item.articleNumber)
+      )
+    );
 
-    // Save missing items report to local storage
-    await this.storageService.saveMissingItems(this.currentList.id, missingItems);
+    // Save missing items report to local storage; only completed counts are submitted
+    await this.storageService.saveMissingItems(this.currentSession.id, missingItems);
     return missingItems;
   }
 
   /**
-   * Synchronizes inventory data with the remote server when connected
+   * Generates the grouped discrepancy report for the current session
+   * Shortages, overages and exact matches are kept in separate groups with their own totals.
+   * Completed sessions return the report frozen at completion.
+   * Open blind counts have no report yet, as it would reveal the expected quantities.
    * 
-   * @returns Promise resolving to true if sync was successful, false otherwise
+   * @returns Promise resolving to the report, or null if no list is active
    */
-  async syncWithServer(): Promise<boolean> {
+  async getDiscrepancyReport(): Promise<DiscrepancyReport | null> {
+    if (!this.currentList || !this.currentSession) return null;
+    if (this.currentSession.status === 'completed' || this.currentSession.status === 'archived') {
+      return await this.storageService.getDiscrepancyReport(this.currentSession.id);
+    }
+    if (this.isBlindCount()) return null;
+
+    return await this.generateDiscrepancyReport();
+  }
+
+  /**
+   * Builds the report of the current session from its live counts and the other
+   * devices' counts of the last refresh, and saves it
+   *
+   * @returns Promise resolving to the report, or null if no list is active
+   */
+  private async generateDiscrepancyReport(): Promise<DiscrepancyReport | null> {
+    if (!this.currentList || !this.currentSession) return null;
+
+    const missingItems = await this.getMissingItems();
+    const report: DiscrepancyReport = {
+      ...buildDiscrepancyReport(
+        this.currentList,
+        missingItems,
+        this.getUnexpectedItems(),
+        this.currentSession.startedAt
+      ),
+      sessionId: this.currentSession.id,
+      operators: deriveOperators(this.scanEvents),
+      generatedBy: this.operatorService.getOperatorRef(),
+    };
+    if (this.locationIndex.size > 0) {
+      report.locations = buildLocationBreakdown(this.currentList, deriveLocationCounts(this.scanEvents));
+    }
+    await this.storageService.saveDiscrepancyReport(this.currentSession.id, report);
+    return report;
+  }
+
+  /**
+   * Queues the scanned counts of every list's open session, drains the outbox
+   * and downloads the partial counts of the other devices counting those lists
+   * The last sync timestamp is only recorded once the server has confirmed all queued work
+   *
+   * @returns Promise resolving to a sync summary or the error that stopped the sync
+   */
+  async syncWithServer(): Promise<ApiResult<SyncSummary>> {
     try {
-      const networkState = await NetInfo.fetch();
-      if (!networkState.isConnected) return false;
-
-      if (this.currentList) {
-        // TODO: Implement API call to sync data
-        // await api.syncInventoryData({
-        //   listId: this.currentList.id,
-        //   scannedItems: Object.fromEntries(this.scannedItems),
-        //   timestamp: new Date().toISOString()
-        // });
-
-        await this.storageService.updateLastSyncTimestamp();
-        return true;
+      const lists = await this.storageService.getInventoryLists();
+      const countedListIds: string[] = [];
+
+      for (const list of lists) {
+        const openSession = findOpenSession(await this.getSessions(list.id));
+        if (!openSession) continue;
+        countedListIds.push(list.id);
+
+        const scannedItems = openSession.id === this.currentSession?.id
+          ? this.scannedItems
+          : await this.storageService.getScannedItems(openSession.id);
+        if (scannedItems.size === 0) continue;
+
+        await this.publishPartialCount(openSession, scannedItems);
       }
 
-      return false;
+      const result = await this.syncService.drain();
+      if (!result.ok) return result;
+
+      for (const listId of countedListIds) {
+        const refreshed = await this.refreshPartialCounts(listId);
+        if (!refreshed.ok) return refreshed;
+      }
+      return result;
     } catch (error) {
       console.error('Error syncing with server:', error);
-      return false;
+      return { ok: false, error: { type: 'storage', message: String(error) } };
     }
   }
 
+  /**
+   * Returns the current number of pending and failed outbox entries
+   *
+   * @returns The outbox status for display in the UI
+   */
+  getOutboxStatus(): OutboxStatus {
+    return this.syncService.getStatus();
+  }
+
   /**
    * Retrieves the timestamp of the last successful sync with the server
    * 
@@ -189,14 +1370,21 @@ export class InventoryListService {
   }
 
   /**
-   * Clears all scanning data for the current inventory list
-   * Used when restarting an inventory check
+   * Clears all scanning data of the current session
+   * Use startSession to begin a new count while keeping the history
    */
   async clearCurrentListData(): Promise<void> {
-    if (this.currentList) {
+    if (this.currentSession) {
+      this.scanEvents = [];
       this.scannedItems.clear();
-      await this.storageService.saveScannedItems(this.currentList.id, new Map());
-      await this.storageService.saveMissingItems(this.currentList.id, []);
+      this.countedSerials.clear();
+      this.unexpectedItems.clear();
+      await this.storageService.saveScanEvents(this.currentSession.id, []);
+      await this.storageService.saveUnexpectedItems(this.currentSession.id, []);
+      await this.storageService.saveScannedItems(this.currentSession.id, new Map());
+      await this.storageService.saveMissingItems(this.currentSession.id, []);
+      // Replace this device's share of the combined count as well
+      await this.publishPartialCount(this.currentSession, this.scannedItems);
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type AsyncStorageModule from '@react-native-async-storage/async-storage';
+import type { OperatorService as OperatorServiceClass } from './OperatorService';
+import { Operator } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+}));
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { fetch: jest.fn(async () => ({ isConnected: false })), addEventListener: jest.fn() },
+}));
+
+const supervisor: Operator = { id: 'op-1', name: 'Ann Smith', badge: 'EMP00017', role: 'supervisor' };
+const counter: Operator = { id: 'op-2', name: 'Bo Lee', badge: 'EMP00023' };
+
+describe('OperatorService', () => {
+  let AsyncStorage: typeof AsyncStorageModule;
+  let service: OperatorServiceClass;
+
+  // A fresh service per test, as after an app start
+  beforeEach(() => {
+    jest.resetModules();
+    AsyncStorage = require('@react-native-async-storage/async-storage').default;
+    service = require('./OperatorService').OperatorService.getInstance();
+  });
+
+  it('requires a login and denies review until the operators have been read', async () => {
+    await AsyncStorage.setItem('operators', JSON.stringify([supervisor, counter]));
+    await AsyncStorage.setItem('current_operator', 'op-1');
+
+    expect(service.isLoginRequired()).toBe(true);
+    expect(service.canReview()).toBe(false);
+
+    await service.ensureLoaded();
+
+    expect(service.getCurrentOperator()).toEqual(supervisor);
+    expect(service.canReview()).toBe(true);
+  });
+
+  it('denies review to counters once the operators have been read', async () => {
+    await AsyncStorage.setItem('operators', JSON.stringify([supervisor, counter]));
+    await AsyncStorage.setItem('current_operator', 'op-2');
+
+    await service.ensureLoaded();
+
+    expect(service.isLoginRequired()).toBe(true);
+    expect(service.canReview()).toBe(false);
+  });
+
+  it('needs no login once an empty operator list has been read', async () => {
+    await service.ensureLoaded();
+
+    expect(service.isLoginRequired()).toBe(false);
+    expect(service.canReview()).toBe(true);
+  });
+
+  it('stays locked while the cached operators cannot be read, and reads them again later', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await AsyncStorage.setItem('operators', JSON.stringify([supervisor]));
+    const getItem = AsyncStorage.getItem as unknown as jest.Mock<(key: string) => Promise<string | null>>;
+    getItem.mockRejectedValueOnce(new Error('Disk I/O error'));
+
+    await service.ensureLoaded();
+
+    expect(service.isLoginRequired()).toBe(true);
+    expect(service.canReview()).toBe(false);
+
+    expect(await service.loginWithBadge('EMP00017')).toEqual(supervisor);
+    expect(service.canReview()).toBe(true);
+  });
+
+  it('replaces a cache with plain PINs by the parsed operators', async () => {
+    await AsyncStorage.setItem('operators', JSON.stringify([{ ...counter, pin: '4821' }]));
+
+    await service.ensureLoaded();
+
+    expect(JSON.parse((await AsyncStorage.getItem('operators')) || '[]')).toEqual([counter]);
+  });
+});
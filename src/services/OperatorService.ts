@@ -0,0 +1,223 @@
+/**
+ * OperatorService Class
+ *
+ * This service keeps track of who is counting on the device, including:
+ * - Downloading the operators allowed to log in and caching them for offline use
+ * - Logging in by badge barcode or PIN against the cached operator list
+ * - Switching operators on a shared device
+ * - Reporting the logged in operator to the UI
+ * - Checking whether the logged in operator may review reports
+ *
+ * Logging in is only required once an operator list has been downloaded.
+ * The cached list is read on first use; until it has been read, logging in is
+ * required and nobody may review.
+ * Switching operators leaves the inventory list and count session untouched,
+ * so the next operator continues where the previous one stopped.
+ *
+ * It implements the Singleton pattern to ensure consistent state across the app.
+ */
+import { Operator, OperatorRef } from '../types';
+import { StorageService } from './StorageService';
+import { ApiService } from './ApiService';
+import { findOperatorByBadge, findOperatorByPin, parseOperators, toOperatorRef } from '../utils/operators';
+
+type OperatorListener = (operator: Operator | null) => void;
+
+export class OperatorService {
+  // Singleton instance
+  private static instance: OperatorService;
+  // Reference to local storage service
+  private storageService: StorageService;
+  // Client for the remote inventory API
+  private apiService: ApiService;
+  // Operators allowed to log in
+  private operators: Operator[] = [];
+  // Whether the operator list has been read, from the cache or the server
+  private isLoaded = false;
+  // Reading of the cached operator list, shared by concurrent callers
+  private cacheLoading: Promise<void> | null = null;
+  // Operator logged in on the device
+  private currentOperator: Operator | null = null;
+  // Subscribers interested in operator changes
+  private listeners: Set<OperatorListener> = new Set();
+
+  /**
+   * Private constructor to enforce the Singleton pattern
+   * Initializes the storage and API services
+   */
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+    this.apiService = ApiService.getInstance();
+  }
+
+  /**
+   * Gets the singleton instance of the service
+   * Creates a new instance if one doesn't exist
+   *
+   * @returns The OperatorService singleton instance
+   */
+  static getInstance(): OperatorService {
+    if (!OperatorService.instance) {
+      OperatorService.instance = new OperatorService();
+    }
+    return OperatorService.instance;
+  }
+
+  /**
+   * Reads the cached operators and the logged in operator once
+   * Awaited before login and review checks, so they never run against an operator
+   * list that was not read yet. A failed read is retried by the next call.
+   */
+  ensureLoaded(): Promise<void> {
+    if (!this.cacheLoading) {
+      this.cacheLoading = this.loadCachedOperators().catch(error => {
+        console.error('Error loading cached operators:', error);
+        this.cacheLoading = null;
+      });
+    }
+    return this.cacheLoading;
+  }
+
+  /**
+   * Loads the operators allowed to log in and restores the logged in operator
+   * Attempts to fetch from remote when connected, falls back to the cached list.
+   * An operator who is no longer on the list is logged out.
+   *
+   * @returns Promise resolving to the operators allowed to log in
+   */
+  async loadOperators(): Promise<Operator[]> {
+    await this.ensureLoaded();
+    try {
+      const remoteOperators = await this.apiService.fetchOperators();
+      if (!remoteOperators.ok) {
+        if (remoteOperators.error.type !== 'offline') {
+          console.warn('Failed to fetch operators, using cached list:', remoteOperators.error.message);
+        }
+        return this.operators;
+      }
+      await this.storageService.saveOperators(remoteOperators.data);
+      await this.applyOperators(remoteOperators.data);
+    } catch (error) {
+      console.error('Error loading operators:', error);
+    }
+    return this.operators;
+  }
+
+  /**
+   * Checks whether scans may only be recorded by a logged in operator
+   *
+   * @returns True once an operator list is available, and while it has not been read
+   */
+  isLoginRequired(): boolean {
+    return !this.isLoaded || this.operators.length > 0;
+  }
+
+  /**
+   * Returns the operator logged in on the device
+   *
+   * @returns The operator, or null if nobody is logged in
+   */
+  getCurrentOperator(): Operator | null {
+    return this.currentOperator;
+  }
+
+  /**
+   * Returns the logged in operator as stamped on scans, corrections and reports
+   *
+   * @returns ID and name of the operator, or undefined if nobody is logged in
+   */
+  getOperatorRef(): OperatorRef | undefined {
+    return this.currentOperator ? toOperatorRef(this.currentOperator) : undefined;
+  }
+
+  /**
+   * Checks whether the logged in operator may review reports
+   * Without an operator list everyone may review, as nobody logs in;
+   * nobody may while the list has not been read
+   *
+   * @returns True for supervisors, or when logging in is not required
+   */
+  canReview(): boolean {
+    return this.isLoaded && (this.operators.length === 0 || this.currentOperator?.role === 'supervisor');
+  }
+
+  /**
+   * Logs in the operator a scanned badge belongs to, replacing the current operator
+   *
+   * @param badge - Barcode read from the badge
+   * @returns Promise resolving to the operator, or null if the badge is unknown
+   */
+  async loginWithBadge(badge: string): Promise<Operator | null> {
+    await this.ensureLoaded();
+    const operator = findOperatorByBadge(this.operators, badge);
+    if (operator) await this.setCurrentOperator(operator);
+    return operator;
+  }
+
+  /**
+   * Logs in the operator an entered PIN belongs to, replacing the current operator
+   *
+   * @param pin - PIN as entered
+   * @returns Promise resolving to the operator, or null if the PIN is unknown
+   */
+  async loginWithPin(pin: string): Promise<Operator | null> {
+    await this.ensureLoaded();
+    const operator = findOperatorByPin(this.operators, pin);
+    if (operator) await this.setCurrentOperator(operator);
+    return operator;
+  }
+
+  /**
+   * Logs out the current operator
+   */
+  async logout(): Promise<void> {
+    await this.setCurrentOperator(null);
+  }
+
+  /**
+   * Registers a callback that is invoked whenever the logged in operator changes
+   *
+   * @param listener - Callback receiving the new operator
+   * @returns Function that removes the listener again
+   */
+  subscribe(listener: OperatorListener): () => void {
+    this.listeners.add(listener);
+    listener(this.currentOperator);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reads the operator list cached on the device
+   * Earlier versions cached plain PINs; such a cache is replaced by the parsed list
+   */
+  private async loadCachedOperators(): Promise<void> {
+    const cached = await this.storageService.getOperators();
+    const operators = parseOperators(cached);
+    if (cached.some(operator => 'pin' in operator)) {
+      await this.storageService.saveOperators(operators);
+    }
+    await this.applyOperators(operators);
+  }
+
+  /**
+   * Makes an operator list current and restores the logged in operator
+   * An operator who is no longer on the list is logged out
+   */
+  private async applyOperators(operators: Operator[]): Promise<void> {
+    const operatorId = this.currentOperator?.id || await this.storageService.getCurrentOperatorId();
+    this.operators = operators;
+    this.isLoaded = true;
+    await this.setCurrentOperator(operators.find(operator => operator.id === operatorId) || null);
+  }
+
+  /**
+   * Changes the logged in operator, persists it and notifies subscribers
+   */
+  private async setCurrentOperator(operator: Operator | null): Promise<void> {
+    this.currentOperator = operator;
+    await this.storageService.saveCurrentOperatorId(operator ? operator.id : null);
+    this.listeners.forEach(listener => listener(operator));
+  }
+}
@@ -3,24 +3,59 @@
  * 
  * This service handles all persistent data storage operations using AsyncStorage.
  * It provides methods for saving and retrieving:
- * - Inventory lists
+ * - Inventory lists and the count sessions of each list
  * - Scanned items and their quantities
- * - Missing items reports
+ * - The scan event log of each count session
+ * - Unexpected (not listed) items found during scanning
+ * - Missing items reports and grouped discrepancy reports
  * - Synchronization timestamps
+ * - The outbox of server operations waiting to be delivered
+ * - Scanner settings
+ * - The device ID and the partial counts of every device counting a list
+ * - The cached operator list and the logged in operator
  * 
  * It implements the Singleton pattern to ensure consistent state across the app.
  */
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { InventoryList, ExpectedItem, MissingItem } from '../types';
+import {
+  CountSession,
+  DevicePartialCount,
+  DiscrepancyReport,
+  InventoryList,
+  ExpectedItem,
+  MissingItem,
+  Operator,
+  OutboxEntry,
+  ScanEvent,
+  ScannerSettings,
+  UnexpectedItem,
+} from '../types';
+
+/**
+ * Number of scan events stored per key. Keeps every write small and every value
+ * far below the size Android can read back from a single key.
+ */
+const SCAN_EVENT_CHUNK_SIZE = 250;
 
 /**
  * Storage key constants to ensure consistent key naming across the app
  */
 const STORAGE_KEYS = {
   INVENTORY_LISTS: 'inventory_lists',   // For storing all inventory lists
-  SCANNED_ITEMS: 'scanned_items',       // Base key for scanned items (appended with list ID)
-  MISSING_ITEMS: 'missing_items',       // Base key for missing items reports (appended with list ID)
+  COUNT_SESSIONS: 'count_sessions',     // Base key for the count sessions of a list (appended with list ID)
+  SCANNED_ITEMS: 'scanned_items',       // Base key for scanned items (appended with session ID)
+  SCAN_EVENTS: 'scan_events',           // Base key for the scan event log chunks (appended with session ID)
+  UNEXPECTED_ITEMS: 'unexpected_items', // Base key for unexpected items (appended with session ID)
+  MISSING_ITEMS: 'missing_items',       // Base key for missing items reports (appended with session ID)
+  DISCREPANCY_REPORT: 'discrepancy_report', // Base key for grouped discrepancy reports (appended with session ID)
   LAST_SYNC: 'last_sync',               // For tracking last server sync timestamp
+  OUTBOX: 'outbox',                     // For queued server operations awaiting delivery
+  BUNDLED_LISTS_VERSION: 'bundled_lists_version', // Version of the bundled inventory lists last seeded
+  SCANNER_SETTINGS: 'scanner_settings', // Global scanner settings changed on the device
+  DEVICE_ID: 'device_id',               // ID identifying this device's counts on the server
+  PARTIAL_COUNTS: 'partial_counts',     // Base key for the merged partial counts of all devices (appended with list ID)
+  OPERATORS: 'operators',               // Operators allowed to log in, cached from the server
+  CURRENT_OPERATOR: 'current_operator', // ID of the operator logged in on the device
 };
 
 export class StorageService {
@@ -75,14 +110,50 @@ export class StorageService {
   }
 
   /**
-   * Saves scanned items for a specific inventory list
+   * Saves all count sessions of an inventory list
+   *
+   * @param listId - ID of the inventory list the sessions belong to
+   * @param sessions - All sessions of the list, oldest first
+   */
+  async saveCountSessions(listId: string, sessions: CountSession[]): Promise<void> {
+    try {
+      const key = `${STORAGE_KEYS.COUNT_SESSIONS}_${listId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(sessions));
+    } catch (error) {
+      console.error('Error saving count sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves all count sessions of an inventory list
+   * Sessions that cannot be read are an error rather than an empty history,
+   * so that the history is never overwritten by the next saved session
+   *
+   * @param listId - ID of the inventory list to get sessions for
+   * @returns Promise resolving to sessions, oldest first, or empty array if none
+   * @throws If the sessions exist but cannot be read
+   */
+  async getCountSessions(listId: string): Promise<CountSession[]> {
+    try {
+      const key = `${STORAGE_KEYS.COUNT_SESSIONS}_${listId}`;
+      const sessions = await AsyncStorage.getItem(key);
+      return sessions ? JSON.parse(sessions) : [];
+    } catch (error) {
+      console.error('Error getting count sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Saves scanned items for a specific count session
    * 
-   * @param listId - ID of the inventory list the items belong to
+   * @param sessionId - ID of the count session the items belong to
    * @param items - Map of article numbers to scan counts
    */
-  async saveScannedItems(listId: string, items: Map<string, number>): Promise<void> {
+  async saveScannedItems(sessionId: string, items: Map<string, number>): Promise<void> {
     try {
-      const key = `${STORAGE_KEYS.SCANNED_ITEMS}_${listId}`;
+      const key = `${STORAGE_KEYS.SCANNED_ITEMS}_${sessionId}`;
       // Convert Map to plain object for JSON serialization
       await AsyncStorage.setItem(key, JSON.stringify(Object.fromEntries(items)));
     } catch (error) {
@@ -92,14 +163,14 @@ export class StorageService {
   }
 
   /**
-   * Retrieves scanned items for a specific inventory list
+   * Retrieves scanned items for a specific count session
    * 
-   * @param listId - ID of the inventory list to get scanned items for
+   * @param sessionId - ID of the count session to get scanned items for
    * @returns Promise resolving to Map of article numbers to scan counts
    */
-  async getScannedItems(listId: string): Promise<Map<string, number>> {
+  async getScannedItems(sessionId: string): Promise<Map<string, number>> {
     try {
-      const key = `${STORAGE_KEYS.SCANNED_ITEMS}_${listId}`;
+      const key = `${STORAGE_KEYS.SCANNED_ITEMS}_${sessionId}`;
       const items = await AsyncStorage.getItem(key);
       // Convert from plain object back to Map
       return items ? new Map(Object.entries(JSON.parse(items))) : new Map();
@@ -110,14 +181,150 @@ export class StorageService {
   }
 
   /**
-   * Saves missing items report for a specific inventory list
+   * Saves the unexpected items found for a specific count session
+   *
+   * @param sessionId - ID of the count session the items were found in
+   * @param items - Unexpected items with their counts and descriptions
+   */
+  async saveUnexpectedItems(sessionId: string, items: UnexpectedItem[]): Promise<void> {
+    try {
+      const key = `${STORAGE_KEYS.UNEXPECTED_ITEMS}_${sessionId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(items));
+    } catch (error) {
+      console.error('Error saving unexpected items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the unexpected items found for a specific count session
+   *
+   * @param sessionId - ID of the count session to get unexpected items for
+   * @returns Promise resolving to unexpected items, or empty array if none
+   */
+  async getUnexpectedItems(sessionId: string): Promise<UnexpectedItem[]> {
+    try {
+      const key = `${STORAGE_KEYS.UNEXPECTED_ITEMS}_${sessionId}`;
+      const items = await AsyncStorage.getItem(key);
+      return items ? JSON.parse(items) : [];
+    } catch (error) {
+      console.error('Error getting unexpected items:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Replaces the complete scan event log of a specific count session
+   * Used when a log is migrated or cleared; scans are added with appendScanEvents
+   *
+   * @param sessionId - ID of the count session the events belong to
+   * @param events - All scan events of the session, oldest first
+   */
+  async saveScanEvents(sessionId: string, events: ScanEvent[]): Promise<void> {
+    try {
+      const key = `${STORAGE_KEYS.SCAN_EVENTS}_${sessionId}`;
+      const previousChunkCount = Number(await AsyncStorage.getItem(`${key}_chunks`)) || 0;
+      const chunkCount = Math.ceil(events.length / SCAN_EVENT_CHUNK_SIZE);
+      await this.saveScanEventChunks(key, events, 0, chunkCount);
+
+      const staleKeys = [key];
+      for (let index = chunkCount; index < previousChunkCount; index++) {
+        staleKeys.push(`${key}_chunk_${index}`);
+      }
+      await AsyncStorage.multiRemove(staleKeys);
+    } catch (error) {
+      console.error('Error saving scan events:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Persists the newest events of the scan event log of a specific count session
+   * The log is stored in chunks of SCAN_EVENT_CHUNK_SIZE events, so only the chunks
+   * holding the new events are written, however long the log grows
+   *
+   * @param sessionId - ID of the count session the events belong to
+   * @param events - All scan events of the session, oldest first
+   * @param newCount - How many events at the end of the log were added since the last save
+   */
+  async appendScanEvents(sessionId: string, events: ScanEvent[], newCount = 1): Promise<void> {
+    try {
+      const key = `${STORAGE_KEYS.SCAN_EVENTS}_${sessionId}`;
+      const firstChunk = Math.floor(Math.max(events.length - newCount, 0) / SCAN_EVENT_CHUNK_SIZE);
+      await this.saveScanEventChunks(key, events, firstChunk, Math.ceil(events.length / SCAN_EVENT_CHUNK_SIZE));
+    } catch (error) {
+      console.error('Error saving scan events:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the scan event log for a specific count session
+   * Logs saved as a single value by earlier versions are moved into chunks.
+   * A log that cannot be read completely is an error rather than an empty log,
+   * so that it is never overwritten by the next scan
+   *
+   * @param sessionId - ID of the count session to get scan events for
+   * @returns Promise resolving to scan events, oldest first, or empty array if none were recorded
+   * @throws If the log exists but cannot be read
+   */
+  async getScanEvents(sessionId: string): Promise<ScanEvent[]> {
+    try {
+      const key = `${STORAGE_KEYS.SCAN_EVENTS}_${sessionId}`;
+      const chunkCount = await AsyncStorage.getItem(`${key}_chunks`);
+      if (chunkCount === null) {
+        const legacyEvents = await AsyncStorage.getItem(key);
+        if (!legacyEvents) return [];
+        const events: ScanEvent[] = JSON.parse(legacyEvents);
+        await this.saveScanEvents(sessionId, events);
+        return events;
+      }
+
+      const chunkKeys = Array.from({ length: Number(chunkCount) }, (_, index) => `${key}_chunk_${index}`);
+      const chunks = await AsyncStorage.multiGet(chunkKeys);
+      return chunks.flatMap(([chunkKey, chunk]) => {
+        if (chunk === null) throw new Error(`Scan log chunk ${chunkKey} is missing`);
+        return JSON.parse(chunk) as ScanEvent[];
+      });
+    } catch (error) {
+      console.error('Error getting scan events:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Writes a range of chunks of a scan event log and the number of chunks
+   *
+   * @param key - Base key of the session's scan event log
+   * @param events - All scan events of the session, oldest first
+   * @param firstChunk - Index of the first chunk to write
+   * @param chunkCount - Total number of chunks of the log
+   */
+  private async saveScanEventChunks(
+    key: string,
+    events: ScanEvent[],
+    firstChunk: number,
+    chunkCount: number
+  ): Promise<void> {
+    const pairs: [string, string][] = [];
+    for (let index = firstChunk; index < chunkCount; index++) {
+      const chunk = events.slice(index * SCAN_EVENT_CHUNK_SIZE, (index + 1) * SCAN_EVENT_CHUNK_SIZE);
+      pairs.push([`${key}_chunk_${index}`, JSON.stringify(chunk)]);
+    }
+    // The chunk count is written last, so it never points at a chunk that was not saved
+    await AsyncStorage.multiSet(pairs);
+    await AsyncStorage.setItem(`${key}_chunks`, String(chunkCount));
+  }
+
+  /**
+   * Saves missing items report for a specific count session
    * 
-   * @param listId - ID of the inventory list the missing items belong to
+   * @param sessionId - ID of the count session the missing items belong to
    * @param items - Array of missing items with their quantities
    */
-  async saveMissingItems(listId: string, items: MissingItem[]): Promise<void> {
+  async saveMissingItems(sessionId: string, items: MissingItem[]): Promise<void> {
     try {
-      const key = `${STORAGE_KEYS.MISSING_ITEMS}_${listId}`;
+      const key = `${STORAGE_KEYS.MISSING_ITEMS}_${sessionId}`;
       await AsyncStorage.setItem(key, JSON.stringify(items));
     } catch (error) {
       console.error('Error saving missing items:', error);
@@ -126,14 +333,14 @@ export class StorageService {
   }
 
   /**
-   * Retrieves missing items report for a specific inventory list
+   * Retrieves missing items report for a specific count session
    * 
-   * @param listId - ID of the inventory list to get missing items for
+   * @param sessionId - ID of the count session to get missing items for
    * @returns Promise resolving to array of missing items
    */
-  async getMissingItems(listId: string): Promise<MissingItem[]> {
+  async getMissingItems(sessionId: string): Promise<MissingItem[]> {
     try {
-      const key = `${STORAGE_KEYS.MISSING_ITEMS}_${listId}`;
+      const key = `${STORAGE_KEYS.MISSING_ITEMS}_${sessionId}`;
       const items = await AsyncStorage.getItem(key);
       return items ? JSON.parse(items) : [];
     } catch (error) {
@@ -142,6 +349,39 @@ export class StorageService {
     }
   }
 
+  /**
+   * Saves the grouped discrepancy report for a specific count session
+   *
+   * @param sessionId - ID of the count session the report belongs to
+   * @param report - Report with shortages, overages, matches and totals
+   */
+  async saveDiscrepancyReport(sessionId: string, report: DiscrepancyReport): Promise<void> {
+    try {
+      const key = `${STORAGE_KEYS.DISCREPANCY_REPORT}_${sessionId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(report));
+    } catch (error) {
+      console.error('Error saving discrepancy report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the grouped discrepancy report for a specific count session
+   *
+   * @param sessionId - ID of the count session to get the report for
+   * @returns Promise resolving to the report, or null if none was generated yet
+   */
+  async getDiscrepancyReport(sessionId: string): Promise<DiscrepancyReport | null> {
+    try {
+      const key = `${STORAGE_KEYS.DISCREPANCY_REPORT}_${sessionId}`;
+      const report = await AsyncStorage.getItem(key);
+      return report ? JSON.parse(report) : null;
+    } catch (error) {
+      console.error('Error getting discrepancy report:', error);
+      return null;
+    }
+  }
+
   /**
    * Updates the timestamp of last successful synchronization with server
    * Stores current date/time as ISO string
@@ -169,6 +409,221 @@ export class StorageService {
     }
   }
 
+  /**
+   * Saves the complete outbox of queued server operations
+   *
+   * @param entries - All outbox entries, in delivery order
+   */
+  async saveOutbox(entries: OutboxEntry[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Error saving outbox:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves all queued server operations
+   * An outbox that cannot be read is an error rather than an empty outbox,
+   * so that the queued work is never overwritten by the next change
+   *
+   * @returns Promise resolving to outbox entries in delivery order, or empty array if none
+   * @throws If the outbox exists but cannot be read
+   */
+  async getOutbox(): Promise<OutboxEntry[]> {
+    try {
+      const entries = await AsyncStorage.getItem(STORAGE_KEYS.OUTBOX);
+      return entries ? JSON.parse(entries) : [];
+    } catch (error) {
+      console.error('Error getting outbox:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records which version of the bundled inventory lists was seeded into storage
+   *
+   * @param version - Version number from config/inventory-lists.json
+   */
+  async saveBundledListsVersion(version: number): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.BUNDLED_LISTS_VERSION, String(version));
+    } catch (error) {
+      console.error('Error saving bundled lists version:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the version of the bundled inventory lists last seeded into storage
+   *
+   * @returns Promise resolving to the version, or null if the lists were never seeded
+   */
+  async getBundledListsVersion(): Promise<number | null> {
+    try {
+      const version = await AsyncStorage.getItem(STORAGE_KEYS.BUNDLED_LISTS_VERSION);
+      return version ? Number(version) : null;
+    } catch (error) {
+      console.error('Error getting bundled lists version:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Saves the global scanner settings
+   *
+   * @param settings - Allowed symbologies and check-digit validation
+   */
+  async saveScannerSettings(settings: ScannerSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.SCANNER_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving scanner settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the global scanner settings
+   *
+   * @returns Promise resolving to the settings, or null if they were never changed
+   */
+  async getScannerSettings(): Promise<ScannerSettings | null> {
+    try {
+      const settings = await AsyncStorage.getItem(STORAGE_KEYS.SCANNER_SETTINGS);
+      return settings ? JSON.parse(settings) : null;
+    } catch (error) {
+      console.error('Error getting scanner settings:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Saves the ID of this device
+   *
+   * @param deviceId - ID generated on first use
+   */
+  async saveDeviceId(deviceId: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.DEVICE_ID, deviceId);
+    } catch (error) {
+      console.error('Error saving device ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the ID of this device
+   *
+   * @returns Promise resolving to the ID, or null if none was generated yet
+   */
+  async getDeviceId(): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(STORAGE_KEYS.DEVICE_ID);
+    } catch (error) {
+      console.error('Error getting device ID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Saves the merged partial counts of all devices counting a list
+   *
+   * @param listId - ID of the inventory list
+   * @param partials - One partial count per device
+   */
+  async savePartialCounts(listId: string, partials: DevicePartialCount[]): Promise<void> {
+    try {
+      const key = `${STORAGE_KEYS.PARTIAL_COUNTS}_${listId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(partials));
+    } catch (error) {
+      console.error('Error saving partial counts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the merged partial counts of all devices counting a list
+   *
+   * @param listId - ID of the inventory list
+   * @returns Promise resolving to one partial count per device
+   */
+  async getPartialCounts(listId: string): Promise<DevicePartialCount[]> {
+    try {
+      const key = `${STORAGE_KEYS.PARTIAL_COUNTS}_${listId}`;
+      const partials = await AsyncStorage.getItem(key);
+      return partials ? JSON.parse(partials) : [];
+    } catch (error) {
+      console.error('Error getting partial counts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Saves the operators allowed to log in
+   *
+   * @param operators - Operator list downloaded from the server
+   */
+  async saveOperators(operators: Operator[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.OPERATORS, JSON.stringify(operators));
+    } catch (error) {
+      console.error('Error saving operators:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the cached operators allowed to log in
+   * A cache that cannot be read is an error rather than an empty list,
+   * which would turn the login off
+   *
+   * @returns Promise resolving to the operators, or an empty array if none were downloaded yet
+   * @throws If the cached operators exist but cannot be read
+   */
+  async getOperators(): Promise<Operator[]> {
+    try {
+      const operators = await AsyncStorage.getItem(STORAGE_KEYS.OPERATORS);
+      return operators ? JSON.parse(operators) : [];
+    } catch (error) {
+      console.error('Error getting operators:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Saves the ID of the logged in operator
+   *
+   * @param operatorId - ID of the operator, or null after logging out
+   */
+  async saveCurrentOperatorId(operatorId: string | null): Promise<void> {
+    try {
+      if (operatorId) {
+        await AsyncStorage.setItem(STORAGE_KEYS.CURRENT_OPERATOR, operatorId);
+      } else {
+        await AsyncStorage.removeItem(STORAGE_KEYS.CURRENT_OPERATOR);
+      }
+    } catch (error) {
+      console.error('Error saving current operator:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the ID of the logged in operator
+   *
+   * @returns Promise resolving to the ID, or null if nobody is logged in
+   */
+  async getCurrentOperatorId(): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(STORAGE_KEYS.CURRENT_OPERATOR);
+    } catch (error) {
+      console.error('Error getting current operator:', error);
+      return null;
+    }
+  }
+
   /**
    * Clears all app data from persistent storage
    * Use with caution - this will delete all saved data
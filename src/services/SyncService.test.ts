@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SyncService } from './SyncService';
+import { OutboxEntry } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { fetch: jest.fn(), addEventListener: jest.fn() },
+}));
+
+const getItem = AsyncStorage.getItem as unknown as jest.Mock<(key: string) => Promise<string | null>>;
+
+const failedUpload: OutboxEntry = {
+  id: 'outbox-1',
+  listId: 'WH-01',
+  status: 'failed',
+  attempts: 8,
+  createdAt: '2024-05-01T10:00:00.000Z',
+  nextAttemptAt: '2024-05-01T10:30:00.000Z',
+  lastError: 'Server responded with 503',
+  type: 'scan_upload',
+  payload: {
+    listId: 'WH-01',
+    scannedItems: { 'A-100': 3 },
+    timestamp: '2024-05-01T10:00:00.000Z',
+    deviceId: 'device-1',
+    version: 1,
+    roundId: 'round-1',
+  },
+};
+
+/**
+ * Reads the outbox as stored, bypassing the services
+ */
+async function storedOutbox(): Promise<OutboxEntry[]> {
+  return JSON.parse((await AsyncStorage.getItem('outbox')) || '[]');
+}
+
+describe('SyncService', () => {
+  const service = SyncService.getInstance();
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await AsyncStorage.clear();
+    await AsyncStorage.setItem('outbox', JSON.stringify([failedUpload]));
+  });
+
+  afterEach(() => {
+    service.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the stored outbox when it cannot be read while queuing', async () => {
+    getItem.mockRejectedValueOnce(new Error('Disk I/O error'));
+
+    await expect(service.enqueueScanUpload({ ...failedUpload.payload, listId: 'WH-02' })).rejects.toThrow(
+      'Disk I/O error'
+    );
+
+    expect(await storedOutbox()).toEqual([failedUpload]);
+  });
+
+  it('keeps the stored outbox when it cannot be read while retrying', async () => {
+    getItem.mockRejectedValueOnce(new Error('Disk I/O error'));
+
+    const result = await service.retryFailed();
+
+    expect(!result.ok && result.error.type).toBe('storage');
+    expect(await storedOutbox()).toEqual([failedUpload]);
+  });
+
+  it('queues new entries once the outbox can be read again', async () => {
+    getItem.mockRejectedValueOnce(new Error('Disk I/O error'));
+    await service.enqueueScanUpload({ ...failedUpload.payload, listId: 'WH-02' }).catch(() => undefined);
+
+    await service.enqueueScanUpload({ ...failedUpload.payload, listId: 'WH-02' });
+
+    const outbox = await storedOutbox();
+    expect(outbox.map(entry => entry.listId)).toEqual(['WH-01', 'WH-02']);
+  });
+});
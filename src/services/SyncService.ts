@@ -0,0 +1,405 @@
+/**
+ * SyncService Class
+ *
+ * This service delivers queued server operations (the outbox), including:
+ * - Queuing scan uploads and report submissions while offline
+ * - Draining the outbox automatically when connectivity is restored
+ * - Retrying failed deliveries with exponential backoff
+ * - Reporting pending and failed counts to the UI
+ *
+ * Only one drain runs at a time and all outbox changes are serialized,
+ * so concurrent scans cannot overwrite each other's queued work.
+ *
+ * It implements the Singleton pattern to ensure consistent state across the app.
+ */
+import NetInfo, { NetInfoSubscription } from '@react-native-community/netinfo';
+import {
+  ApiError,
+  ApiResult,
+  OutboxEntry,
+  OutboxStatus,
+  ReportSubmissionPayload,
+  ScanUploadPayload,
+  ScanUploadReceipt,
+  SyncSummary,
+} from '../types';
+import { StorageService } from './StorageService';
+import { ApiService } from './ApiService';
+import { generateId } from '../utils/ids';
+
+/**
+ * Retry policy for outbox deliveries
+ */
+const RETRY = {
+  BASE_DELAY_MS: 5000,        // Delay before the first retry
+  MAX_DELAY_MS: 10 * 60000,   // Upper bound for the backoff delay
+  MAX_ATTEMPTS: 8,            // Attempts before an entry is marked as failed
+  DEBOUNCE_MS: 3000,          // Wait after queuing so bursts of scans are sent together
+};
+
+type OutboxListener = (status: OutboxStatus) => void;
+
+export class SyncService {
+  // Singleton instance
+  private static instance: SyncService;
+  // Reference to local storage service
+  private storageService: StorageService;
+  // Client for the remote inventory API
+  private apiService: ApiService;
+  // Active NetInfo subscription, set once start() has been called
+  private netInfoSubscription: NetInfoSubscription | null = null;
+  // Timer for the next scheduled drain
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+  // Promise of the drain in progress, shared by concurrent callers
+  private activeDrain: Promise<ApiResult<SyncSummary>> | null = null;
+  // Tail of the serialized outbox mutations
+  private outboxLock: Promise<unknown> = Promise.resolve();
+  // Subscribers interested in outbox status changes
+  private listeners: Set<OutboxListener> = new Set();
+  // Last status broadcast to subscribers
+  private status: OutboxStatus = { pending: 0, failed: 0, isDraining: false };
+
+  /**
+   * Private constructor to enforce the Singleton pattern
+   * Initializes the storage and API services
+   */
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+    this.apiService = ApiService.getInstance();
+  }
+
+  /**
+   * Gets the singleton instance of the service
+   * Creates a new instance if one doesn't exist
+   *
+   * @returns The SyncService singleton instance
+   */
+  static getInstance(): SyncService {
+    if (!SyncService.instance) {
+      SyncService.instance = new SyncService();
+    }
+    return SyncService.instance;
+  }
+
+  /**
+   * Starts listening for connectivity changes and drains the outbox whenever
+   * the device comes back online. Safe to call more than once.
+   */
+  start(): void {
+    if (this.netInfoSubscription) return;
+
+    this.netInfoSubscription = NetInfo.addEventListener(state => {
+      if (state.isConnected) {
+        this.drain();
+      }
+    });
+    this.refreshStatus().catch(error => console.error('Error reading outbox status:', error));
+  }
+
+  /**
+   * Stops listening for connectivity changes and cancels scheduled drains
+   */
+  stop(): void {
+    this.netInfoSubscription?.();
+    this.netInfoSubscription = null;
+    this.clearDrainTimer();
+  }
+
+  /**
+   * Queues the latest scanned counts of a list for upload
+   * Replaces any upload for the same list that has not been delivered yet
+   *
+   * @param payload - Scanned counts to upload
+   */
+  async enqueueScanUpload(payload: ScanUploadPayload): Promise<void> {
+    await this.enqueue({ ...this.createEntryBase(payload.listId), type: 'scan_upload', payload });
+  }
+
+  /**
+   * Queues the frozen report of a completed count for submission
+   * Replaces any report of the same session that has not been delivered yet
+   *
+   * @param payload - Report to submit
+   */
+  async enqueueReportSubmission(payload: ReportSubmissionPayload): Promise<void> {
+    await this.enqueue({ ...this.createEntryBase(payload.listId), type: 'report_submission', payload });
+  }
+
+  /**
+   * Delivers every due outbox entry in order
+   * Concurrent calls share the drain that is already running. The last sync
+   * timestamp is only updated once the outbox is completely empty.
+   *
+   * @returns Promise resolving to a sync summary or the first error encountered
+   */
+  drain(): Promise<ApiResult<SyncSummary>> {
+    if (!this.activeDrain) {
+      this.clearDrainTimer();
+      this.activeDrain = this.runDrain().finally(() => {
+        this.activeDrain = null;
+        this.setDraining(false);
+      });
+    }
+    return this.activeDrain;
+  }
+
+  /**
+   * Moves all failed entries back to pending and drains the outbox again
+   *
+   * @returns Promise resolving to the result of the new drain, or a storage error
+   */
+  async retryFailed(): Promise<ApiResult<SyncSummary>> {
+    try {
+      await this.updateOutbox(entries =>
+        entries.map(entry =>
+          entry.status === 'failed'
+            ? { ...entry, status: 'pending', attempts: 0, nextAttemptAt: new Date().toISOString() }
+            : entry
+        )
+      );
+    } catch (error) {
+      return { ok: false, error: { type: 'storage', message: `Failed to update the outbox: ${String(error)}` } };
+    }
+    return this.drain();
+  }
+
+  /**
+   * Returns the most recent outbox status
+   *
+   * @returns Pending and failed counts and whether a drain is running
+   */
+  getStatus(): OutboxStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Registers a callback that is invoked whenever the outbox status changes
+   *
+   * @param listener - Callback receiving the new status
+   * @returns Function that removes the listener again
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Performs the actual drain and turns storage failures into an error result
+   * Drains are started without awaiting them, so this must never reject
+   */
+  private async runDrain(): Promise<ApiResult<SyncSummary>> {
+    this.setDraining(true);
+    try {
+      return await this.deliverDueEntries();
+    } catch (error) {
+      console.error('Error draining outbox:', error);
+      return { ok: false, error: { type: 'storage', message: `Failed to update the outbox: ${String(error)}` } };
+    }
+  }
+
+  /**
+   * Sends due entries one by one and records the outcome
+   */
+  private async deliverDueEntries(): Promise<ApiResult<SyncSummary>> {
+    const uploadedListIds: string[] = [];
+    let firstError: ApiError | null = null;
+    let isOffline = false;
+
+    const entries = await this.storageService.getOutbox();
+    for (const entry of entries) {
+      if (entry.status !== 'pending' || Date.parse(entry.nextAttemptAt) > Date.now()) continue;
+
+      const result = await this.deliver(entry);
+      if (result.ok) {
+        await this.updateOutbox(current => current.filter(item => item.id !== entry.id));
+        if (entry.type === 'scan_upload') uploadedListIds.push(entry.listId);
+        continue;
+      }
+
+      firstError = firstError || result.error;
+      if (result.error.type === 'offline') {
+        // Retried by the connectivity listener once the device is back online
+        isOffline = true;
+        break;
+      }
+      await this.updateOutbox(current =>
+        current.map(item => (item.id === entry.id ? this.withFailedAttempt(item, result.error) : item))
+      );
+    }
+
+    const remaining = await this.refreshStatus();
+    if (!isOffline) {
+      this.scheduleNextDrain(remaining);
+    }
+
+    if (remaining.length > 0) {
+      return {
+        ok: false,
+        error: firstError || { type: 'network', message: `${remaining.length} outbox entries are still waiting` },
+      };
+    }
+
+    await this.storageService.updateLastSyncTimestamp();
+    const syncedAt = await this.storageService.getLastSyncTimestamp();
+    return { ok: true, data: { syncedAt: syncedAt || new Date().toISOString(), uploadedListIds } };
+  }
+
+  /**
+   * Sends a single outbox entry to the matching API endpoint
+   */
+  private deliver(entry: OutboxEntry): Promise<ApiResult<ScanUploadReceipt>> {
+    switch (entry.type) {
+      case 'scan_upload':
+        return this.apiService.uploadScannedItems(entry.payload);
+      case 'report_submission':
+        return this.apiService.submitReport(entry.payload);
+    }
+  }
+
+  /**
+   * Records a failed delivery attempt and computes the next retry time
+   * Client errors and rejections are permanent and fail the entry immediately
+   */
+  private withFailedAttempt(entry: OutboxEntry, error: ApiError): OutboxEntry {
+    const attempts = entry.attempts + 1;
+    const isPermanent =
+      error.type === 'rejected' ||
+      (error.type === 'http' && error.status !== undefined && error.status >= 400 && error.status < 500 &&
+        error.status !== 408 && error.status !== 429);
+    const delay = Math.min(RETRY.BASE_DELAY_MS * 2 ** (attempts - 1), RETRY.MAX_DELAY_MS);
+
+    return {
+      ...entry,
+      attempts,
+      status: isPermanent || attempts >= RETRY.MAX_ATTEMPTS ? 'failed' : 'pending',
+      nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+      lastError: error.message,
+    };
+  }
+
+  /**
+   * Adds an entry to the outbox, replacing the undelivered entry it supersedes,
+   * and schedules a drain
+   */
+  private async enqueue(entry: OutboxEntry): Promise<void> {
+    await this.updateOutbox(entries => [
+      ...entries.filter(item => !this.isSupersededBy(item, entry)),
+      entry,
+    ]);
+    if (!this.activeDrain) {
+      this.scheduleDrain(RETRY.DEBOUNCE_MS);
+    }
+  }
+
+  /**
+   * Checks whether a queued entry is made obsolete by a new one
+   * Scan uploads carry the latest counts of a list; reports belong to one session
+   */
+  private isSupersededBy(item: OutboxEntry, entry: OutboxEntry): boolean {
+    if (item.type === 'scan_upload' && entry.type === 'scan_upload') {
+      return item.listId === entry.listId;
+    }
+    if (item.type === 'report_submission' && entry.type === 'report_submission') {
+      return item.payload.sessionId === entry.payload.sessionId;
+    }
+    return false;
+  }
+
+  /**
+   * Creates the shared fields of a new outbox entry
+   */
+  private createEntryBase(listId: string) {
+    const now = new Date().toISOString();
+    return {
+      id: generateId('outbox'),
+      listId,
+      status: 'pending' as const,
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now,
+    };
+  }
+
+  /**
+   * Applies a change to the persisted outbox
+   * Changes are chained so that read-modify-write cycles never interleave.
+   * If the outbox cannot be read the change is abandoned and the stored outbox is kept
+   */
+  private updateOutbox(mutate: (entries: OutboxEntry[]) => OutboxEntry[]): Promise<void> {
+    const next = this.outboxLock.then(async () => {
+      const entries = await this.storageService.getOutbox();
+      await this.storageService.saveOutbox(mutate(entries));
+      await this.refreshStatus();
+    });
+    this.outboxLock = next.catch(error => console.error('Error updating outbox:', error));
+    return next;
+  }
+
+  /**
+   * Recounts the outbox and notifies subscribers
+   *
+   * @returns The entries that are still waiting or failed
+   */
+  private async refreshStatus(): Promise<OutboxEntry[]> {
+    const entries = await this.storageService.getOutbox();
+    this.status = {
+      ...this.status,
+      pending: entries.filter(entry => entry.status === 'pending').length,
+      failed: entries.filter(entry => entry.status === 'failed').length,
+    };
+    this.notify();
+    return entries;
+  }
+
+  /**
+   * Schedules a drain for the earliest pending retry, if any
+   */
+  private scheduleNextDrain(entries: OutboxEntry[]): void {
+    const nextAttempts = entries
+      .filter(entry => entry.status === 'pending')
+      .map(entry => Date.parse(entry.nextAttemptAt));
+    if (nextAttempts.length === 0) return;
+
+    this.scheduleDrain(Math.max(Math.min(...nextAttempts) - Date.now(), 0));
+  }
+
+  /**
+   * Replaces any scheduled drain with one that runs after the given delay
+   */
+  private scheduleDrain(delayMs: number): void {
+    this.clearDrainTimer();
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = null;
+      this.drain();
+    }, delayMs);
+  }
+
+  /**
+   * Cancels the scheduled drain, if any
+   */
+  private clearDrainTimer(): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+  }
+
+  /**
+   * Updates the draining flag and notifies subscribers
+   */
+  private setDraining(isDraining: boolean): void {
+    this.status = { ...this.status, isDraining };
+    this.notify();
+  }
+
+  /**
+   * Sends the current status to every subscriber
+   */
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
@@ -11,8 +11,52 @@ export interface InventoryList {
   name: string;               // Display name of the inventory list
   description: string;        // Detailed description of the inventory's purpose
   items: ExpectedItem[];      // Collection of items expected to be in this inventory
+  origin?: ListOrigin;        // Where the list came from; lists without an origin were downloaded from the server
+  scannerSettings?: Partial<ScannerSettings>; // Overrides the global scanner settings while this list is counted
+  locations?: StorageLocation[]; // Bins the list is counted by; scans then need a location first
+  recountOf?: RecountSource;  // Count whose articles this list recounts, for lists created by a review
+  blindCount?: boolean;       // New counts of the list hide expected quantities until the report
+  countRound?: string;        // Current count round, set by the server; devices counting the list share their counts within it
 }
 
+/**
+ * The count a recount list was created from.
+ * Completing a count of the recount list updates the report of this count.
+ */
+export interface RecountSource {
+  listId: string;             // ID of the list that was counted
+  sessionId: string;          // ID of the count session whose report is under review
+}
+
+/**
+ * A storage location (bin) in the warehouse, identified by the barcode on its label.
+ */
+export interface StorageLocation {
+  id: string;                 // Unique identifier within the list, e.g. "A-03-2"
+  barcode: string;            // Barcode on the location label
+  aisle: string;              // Aisle, e.g. "A"
+  shelf: string;              // Shelf within the aisle, e.g. "03"
+  bin: string;                // Bin on the shelf, e.g. "2"
+}
+
+/**
+ * Part of an item's expected quantity that is stored in one location.
+ */
+export interface ItemLocation {
+  locationId: string;         // Location the units are stored in
+  expectedQuantity: number;   // Units expected in this location
+}
+
+/**
+ * Where an inventory list came from.
+ * Lists created on the device are kept when the server's lists are downloaded.
+ */
+export type ListOrigin =
+  | 'remote'                  // Downloaded from the inventory API
+  | 'bundled'                 // Seeded from config/inventory-lists.json shipped with the app
+  | 'import'                  // Imported from a CSV file on the device
+  | 'recount';                // Created on the device to recount articles of a reviewed count
+
 /**
  * Represents an item that is expected to be found during inventory scanning.
  * Contains the basic information needed to identify and validate items.
@@ -22,17 +66,468 @@ export interface ExpectedItem {
   description: string;        // Human-readable description of the item
   expectedQuantity: number;   // How many of this item should be in inventory
   imagePath: string;          // Path to the item's image for visual identification
+  barcodes?: ItemBarcode[];   // Further barcodes of the article, e.g. on inner packs and cases
+  serialized?: boolean;       // Every unit carries a serial number that must be recorded once
+  locations?: ItemLocation[]; // Split of expectedQuantity over the list's locations
 }
 
+/**
+ * An additional barcode of an article, such as the GTIN printed on a pack or case.
+ */
+export interface ItemBarcode {
+  barcode: string;            // The barcode as read by the scanner
+  multiplier: number;         // Units of the article represented by one scan, e.g. 12 for a 12-pack
+  label?: string;             // Optional packaging name shown to the operator, e.g. "Case"
+}
+
+/**
+ * Data fields extracted from a GS1-128 or GS1 DataMatrix barcode.
+ */
+export interface Gs1Data {
+  gtin: string;               // AI (01): 14-digit GTIN of the trade item
+  batch?: string;             // AI (10): batch or lot number
+  expiryDate?: string;        // AI (17): expiration date as ISO date (YYYY-MM-DD)
+  serial?: string;            // AI (21): serial number
+}
+
+/**
+ * Entry of the barcode lookup index of a list.
+ */
+export interface BarcodeMatch {
+  item: ExpectedItem;         // Article the barcode belongs to
+  multiplier: number;         // Units represented by one scan of the barcode
+}
+
+/**
+ * Result of looking up a scanned barcode in the barcode index.
+ */
+export interface BarcodeResolution {
+  match: BarcodeMatch | null; // Matched article, null if the barcode is not on the list
+  gs1: Gs1Data | null;        // Extracted GS1 data, null if the barcode is not a GS1 code
+}
+
+/**
+ * How the scanned quantity of an item compares to the expected quantity.
+ * Overcounts are a different problem from shrinkage and are kept apart from shortages.
+ */
+export type DiscrepancyStatus =
+  | 'shortage'                // Fewer units scanned than expected
+  | 'overage'                 // More units scanned than expected
+  | 'match';                  // Exactly the expected quantity was scanned
+
 /**
  * Extends ExpectedItem with scan result data to track discrepancies.
  * Used for generating reports and highlighting inventory issues.
  */
 export interface MissingItem extends ExpectedItem {
   scannedQuantity: number;    // How many were actually scanned during inventory
-  missing: number;            // Calculated difference (expectedQuantity - scannedQuantity)
+  missing: number;            // Calculated difference (expectedQuantity - scannedQuantity), negative for overages
+  status: DiscrepancyStatus;  // Classification of the difference
+  serials?: string[];         // Counted serial numbers, present for serialized items
+}
+
+/**
+ * Number of items and units in one group of the discrepancy report.
+ */
+export interface DiscrepancyTotals {
+  items: number;              // How many articles (or barcodes) are in the group
+  units: number;              // Sum of the absolute variances (scanned units for matches and unexpected items)
+}
+
+/**
+ * Result of an inventory check, grouped into shortages, overages and matches.
+ */
+export interface DiscrepancyReport {
+  listId: string;             // ID of the inventory list that was counted
+  sessionId?: string;         // ID of the count session the report belongs to
+  listName: string;           // Display name of the list at the time of the report
+  startedAt: string | null;   // ISO timestamp of when the count session was started
+  generatedAt: string;        // ISO timestamp of when the report was created
+  shortages: MissingItem[];   // Items with fewer units than expected
+  overages: MissingItem[];    // Items with more units than expected
+  matches: MissingItem[];     // Items counted exactly
+  unexpectedItems: UnexpectedItem[]; // Scanned barcodes that are not on the list
+  totals: Record<DiscrepancyStatus | 'unexpected', DiscrepancyTotals>; // Totals per group
+  locations?: LocationDiscrepancies[]; // Breakdown per location, for lists counted by location
+  operators?: OperatorRef[];  // Operators who recorded scans or corrections, in the order they started
+  generatedBy?: OperatorRef;  // Operator who was logged in when the report was created
+  review?: ReportReview;      // Supervisor decisions on the variances, once the review has started
+}
+
+/**
+ * What a supervisor decided about the variance of an article.
+ */
+export type ReviewDecision =
+  | 'accepted'                // The variance is confirmed
+  | 'rejected'                // The variance is not confirmed, e.g. to be investigated
+  | 'recount';                // The article is counted again in a recount list
+
+/**
+ * Review state of a report as a whole.
+ */
+export type ReviewStatus =
+  | 'pending'                 // Some variances have no decision yet
+  | 'recount_pending'         // Every variance is decided, but recounts are not completed yet
+  | 'approved';               // Every variance was accepted or rejected
+
+/**
+ * Supervisor decision on the variance of one article of a report.
+ */
+export interface ItemReview {
+  articleNumber: string;      // Article the decision is about
+  decision: ReviewDecision;   // What was decided
+  decidedAt: string;          // ISO timestamp of the decision
+  decidedBy?: OperatorRef;    // Supervisor who decided
+  originalQuantity: number;   // Scanned quantity of the count under review, kept after a recount
+  recountListId?: string;     // Recount list the article was added to, for recount decisions
+  recountQuantity?: number;   // Scanned quantity of the completed recount; replaces the original figure in the report
+  recountedAt?: string;       // ISO timestamp of when the recount was completed
+}
+
+/**
+ * Supervisor review of a report, saved with the report.
+ */
+export interface ReportReview {
+  status: ReviewStatus;       // Review state derived from the item decisions
+  items: ItemReview[];        // Latest decision per article, in the order of the first decision
+}
+
+/**
+ * Expected and scanned quantities of the items in one location.
+ */
+export interface LocationDiscrepancies {
+  location: StorageLocation;  // The location
+  items: MissingItem[];       // Items expected or scanned in the location, largest variance first
+  totals: Record<DiscrepancyStatus, DiscrepancyTotals>; // Totals per group within the location
 }
 
+/**
+ * How an article's count moved between two count sessions.
+ */
+export type MovementStatus =
+  | 'newly_missing'           // Short in the later count, but not in the earlier one
+  | 'recovered'               // Short in the earlier count, but not in the later one
+  | 'changed'                 // Counted differently, without a change in shortage
+  | 'unchanged';              // Counted the same in both sessions
+
+/**
+ * Change of a single article between two count sessions.
+ */
+export interface ArticleMovement {
+  articleNumber: string;      // Article the movement refers to
+  description: string;        // Description from the later count, or the earlier one if it is no longer listed
+  previousScanned: number;    // Units counted in the earlier session (0 if not listed then)
+  currentScanned: number;     // Units counted in the later session (0 if no longer listed)
+  previousMissing: number;    // Expected minus scanned in the earlier session
+  currentMissing: number;     // Expected minus scanned in the later session
+  delta: number;              // currentScanned - previousScanned, positive when stock grew
+  status: MovementStatus;     // Classification of the movement
+}
+
+/**
+ * Comparison of two count sessions of the same list.
+ */
+export interface SessionComparison {
+  listId: string;             // ID of the inventory list both sessions counted
+  listName: string;           // Display name of the list
+  previousSessionId?: string; // ID of the earlier session
+  currentSessionId?: string;  // ID of the later session
+  previousStartedAt: string | null; // When the earlier session was started
+  currentStartedAt: string | null; // When the later session was started
+  generatedAt: string;        // ISO timestamp of when the comparison was created
+  movements: ArticleMovement[]; // Every article of either session, largest change first
+  totals: Record<MovementStatus, number>; // Number of articles per movement status
+  netDelta: number;           // Sum of all deltas in units
+}
+
+/**
+ * File formats a report can be exported to.
+ */
+export type ExportFormat = 'csv' | 'json' | 'pdf';
+
+/**
+ * A report file written to device storage.
+ */
+export interface ExportResult {
+  format: ExportFormat;       // Format of the written file
+  fileName: string;           // Name of the file, including extension
+  filePath: string;           // Absolute path of the file on the device
+}
+
+/**
+ * Orders in which report items can be listed.
+ */
+export type DiscrepancySortKey =
+  | 'variance'                // Largest absolute difference first
+  | 'articleNumber'           // Article number, ascending
+  | 'description';            // Description, alphabetical
+
+/**
+ * How a scan was entered.
+ */
+export type ScanSource =
+  | 'camera'                  // Read by the barcode scanner
+  | 'manual'                  // Typed into the manual input modal
+  | 'legacy';                 // Migrated from count totals stored before the scan log existed
+
+/**
+ * What a scan log entry represents.
+ */
+export type ScanEventKind =
+  | 'scan'                    // Units counted by scanning or typing a barcode
+  | 'correction';             // Adjustment made by the operator (undo, decrement, set quantity)
+
+/**
+ * A single entry of the append-only scan log of an inventory list.
+ * Scanned quantities are derived from these events, so every count can be audited.
+ * Mistakes are never edited away; they are fixed by appending a correction.
+ */
+export interface ScanEvent {
+  id: string;                 // Unique identifier of the event
+  listId: string;             // Inventory list the scan was recorded for
+  kind: ScanEventKind;        // Whether this is a scan or a correction
+  timestamp: string;          // ISO timestamp of when the scan happened
+  source: ScanSource;         // How the scan was entered
+  rawBarcode: string;         // Value exactly as read or typed
+  articleNumber: string | null; // Resolved article, or null if the barcode matched no item (unexpected item)
+  quantity: number;           // Units this event adds to the article's (or unexpected barcode's) count, negative for corrections that reduce it
+  reason?: string;            // Why the correction was made, required for corrections
+  correctsEventId?: string;   // Scan event reverted by this correction (undo only)
+  gs1?: Gs1Data;              // GTIN, lot, expiry and serial when a GS1 barcode was scanned
+  serial?: string;            // Serial number of the counted unit, for serialized items
+  locationId?: string;        // Location the scan or correction was recorded in
+  operator?: OperatorRef;     // Operator who was logged in when the scan or correction was recorded
+}
+
+/**
+ * Criteria for querying the scan log. All fields are optional and combined with AND.
+ */
+export interface ScanEventQuery {
+  articleNumber?: string;     // Only events resolved to this article
+  kind?: ScanEventKind;       // Only scans or only corrections
+  source?: ScanSource;        // Only events entered this way
+  from?: string;              // Only events at or after this ISO timestamp
+  to?: string;                // Only events at or before this ISO timestamp
+}
+
+/**
+ * How far an item on the list has been counted.
+ */
+export type ItemProgress =
+  | 'not_started'             // Nothing counted yet
+  | 'partial'                 // Counted, but fewer than expected
+  | 'complete'                // Exactly the expected quantity counted
+  | 'over_counted';           // More than expected counted
+
+/**
+ * Orders in which the items of the list being counted can be shown.
+ */
+export type ItemSortKey =
+  | 'articleNumber'           // Article number, ascending
+  | 'description'             // Description, alphabetical
+  | 'remaining';              // Most units still to count first
+
+/**
+ * Criteria for finding items on the list being counted. All fields are optional.
+ */
+export interface ItemQuery {
+  search?: string;            // Part of the article number or description, case-insensitive
+  progress?: ItemProgress;    // Only items counted this far
+  sortBy?: ItemSortKey;       // Order of the result; list order when not set
+}
+
+/**
+ * Lifecycle states of a count session.
+ */
+export type CountSessionStatus =
+  | 'active'                  // Scans are being recorded
+  | 'paused'                  // Interrupted; can be resumed
+  | 'completed'               // Finished; the report is frozen
+  | 'archived';               // Completed and hidden from the default history
+
+/**
+ * One inventory count of a list. A list can be counted many times; each count
+ * keeps its own scan log, unexpected items and report.
+ * Counts recorded before sessions existed use the list ID as session ID.
+ */
+export interface CountSession {
+  id: string;                 // Unique identifier, used as storage key for the session's scan data
+  listId: string;             // ID of the inventory list being counted
+  status: CountSessionStatus; // Current lifecycle state
+  startedAt: string;          // ISO timestamp of when the session was started
+  endedAt: string | null;     // ISO timestamp of when the session was completed
+  pausedAt: string | null;    // ISO timestamp of the current pause, null unless paused
+  blindCount?: boolean;       // Expected quantities are hidden while counting and revealed in the report
+  roundId?: string;           // Count round the session's counts are shared in; sessions without one use their own ID
+}
+
+/**
+ * Outcome of recording a scan.
+ */
+export type ScanResultStatus =
+  | 'counted'                 // The barcode matched an item and the quantity was added
+  | 'unexpected'              // The barcode matched no item and was recorded as an unexpected item
+  | 'invalid_quantity'        // The quantity was not a whole number within the allowed range
+  | 'session_closed'          // The count session is paused or completed and accepts no scans
+  | 'serial_required'         // The item is serialized and the barcode carried no serial number
+  | 'duplicate_serial'        // The serial number was already counted in this session
+  | 'location_set'            // The barcode was a location label; later scans count against it
+  | 'location_required'       // The list is counted by location and no location was scanned yet
+  | 'operator_required'       // Operators are configured and nobody is logged in
+  | 'no_list';                // No inventory list is active
+
+/**
+ * Result returned by InventoryListService.scanItem so the UI can give precise feedback.
+ */
+export interface ScanResult {
+  status: ScanResultStatus;   // What happened to the scan
+  quantity: number;           // Quantity that was requested for this scan
+  item?: ExpectedItem;        // Matched item, present when status is 'counted'
+  multiplier?: number;        // Units per scan of the matched barcode, present when status is 'counted'
+  scannedQuantity?: number;   // New total for the matched item, present when status is 'counted'
+  combinedQuantity?: number;  // New total for the matched item on all devices counting the list, present when status is 'counted'
+  unexpectedItem?: UnexpectedItem; // Updated unexpected item, present when status is 'unexpected'
+  gs1?: Gs1Data;              // Data extracted from a GS1 barcode
+  serial?: string;            // Serial number of the unit, for 'counted' and 'duplicate_serial'
+  location?: StorageLocation; // Current location, for 'location_set' and 'counted' on lists with locations
+}
+
+/**
+ * Kind of feedback the scanner gives the operator after a scan.
+ * Each kind has its own vibration pattern.
+ */
+export type ScanFeedbackKind =
+  | 'success'                 // Counted, still within the expected quantity
+  | 'over_count'              // Counted, but now more than expected
+  | 'unknown'                 // Not on the list, recorded as an unexpected item
+  | 'rejected';               // Not recorded, e.g. the count is closed or the serial was already counted
+
+/**
+ * Feedback shown in the scanner overlay for the most recent scan.
+ */
+export interface ScanFeedback {
+  id: string;                 // Unique per scan, so scanning the same item again replays the feedback
+  kind: ScanFeedbackKind;     // Decides colors and vibration
+  title: string;              // Short headline, e.g. "Counted"
+  barcode: string;            // Barcode as it was read or entered
+  item?: ExpectedItem;        // Matched item, shown with its image and description
+  scannedQuantity?: number;   // New total of the matched item on all devices, as shown in the list
+  message?: string;           // Explanation for unknown and rejected scans
+  blind?: boolean;            // Scanned during a blind count; the expected quantity must not be shown
+}
+
+/**
+ * A barcode captured together with others, e.g. one of the labels on a shelf front.
+ */
+export interface BatchScan {
+  barcode: string;            // Value exactly as read
+  quantity: number;           // Number of units (or packs) to count for the barcode
+}
+
+/**
+ * Outcome of one barcode of a batch, returned by InventoryListService.scanBatch.
+ */
+export interface BatchScanResult {
+  barcode: string;            // Barcode the result belongs to
+  result: ScanResult;         // Same result scanItem returns for a single scan
+}
+
+/**
+ * A barcode that was scanned during an inventory but is not on the list.
+ * Kept per list so the report covers surplus goods as well as shortages.
+ */
+export interface UnexpectedItem {
+  barcode: string;            // Value exactly as read or typed
+  count: number;              // Units scanned for this barcode
+  description?: string;       // Optional description entered by the operator
+  firstScannedAt: string;     // ISO timestamp of the first scan
+  lastScannedAt: string;      // ISO timestamp of the most recent scan
+}
+
+/**
+ * Which CSV column (by zero-based index) holds each ExpectedItem field.
+ * null means the column is not present in the file.
+ */
+export interface CsvColumnMapping {
+  articleNumber: number | null; // Column with the article number/barcode (required)
+  description: number | null; // Column with the item description
+  expectedQuantity: number | null; // Column with the expected quantity (required)
+  imagePath: number | null;   // Column with the image name
+}
+
+/**
+ * Problems found in a CSV row during import. Rows with issues are not imported.
+ */
+export type ImportIssue =
+  | 'missing_article_number'  // The article number column is empty
+  | 'duplicate_article_number' // The article number already appeared in an earlier row
+  | 'invalid_quantity';       // The quantity is not a whole number of zero or more
+
+/**
+ * One data row of a CSV file, mapped to an ExpectedItem and checked for problems.
+ */
+export interface ImportRow {
+  rowNumber: number;          // Line number in the file (1-based, header is line 1)
+  item: ExpectedItem;         // Item as it would be imported
+  issues: ImportIssue[];      // Problems preventing the import of this row
+}
+
+/**
+ * Result of mapping and validating a CSV file, shown before the import is confirmed.
+ */
+export interface ImportPreview {
+  headers: string[];          // Column names from the header row
+  rows: ImportRow[];          // All data rows with their issues
+  validItems: ExpectedItem[]; // Items that will be imported
+  invalidRowCount: number;    // Rows that will be skipped
+}
+
+/**
+ * Barcode symbologies the scanner can be limited to.
+ */
+export type Symbology =
+  | 'ean13'                   // EAN-13 / GTIN-13
+  | 'ean8'                    // EAN-8 / GTIN-8
+  | 'upc_a'                   // UPC-A / GTIN-12
+  | 'upc_e'                   // UPC-E, zero-suppressed UPC-A
+  | 'code128'                 // Code 128, including GS1-128
+  | 'code39'                  // Code 39
+  | 'itf'                     // Interleaved 2 of 5, including ITF-14 on cases
+  | 'datamatrix'              // Data Matrix, including GS1 DataMatrix
+  | 'qr';                     // QR Code
+
+/**
+ * How the camera scanner continues after a barcode was counted.
+ */
+export type ScanMode =
+  | 'single'                  // Confirm the scan and pause until the operator scans the next item
+  | 'continuous'              // Keep scanning, for fast walking counts
+  | 'batch';                  // Capture every barcode in view and count them together once confirmed
+
+/**
+ * Which barcodes the camera scanner accepts and how it repeats scans.
+ */
+export interface ScannerSettings {
+  symbologies: Symbology[];   // Symbologies that are decoded; all others are ignored
+  validateCheckDigits: boolean; // Reject GTIN family reads whose check digit is wrong
+  scanMode: ScanMode;         // Mode the scanner opens in
+  cooldownMs: number;         // How long a barcode must be out of view before it is counted again
+}
+
+/**
+ * Why a camera read was rejected instead of being counted.
+ */
+export type BarcodeRejectReason =
+  | 'symbology_not_allowed'   // The symbology is not enabled in the scanner settings
+  | 'invalid_check_digit';    // The GTIN check digit does not match, most likely a misread
+
+/**
+ * Result of checking a camera read against the scanner settings.
+ */
+export type BarcodeReadCheck =
+  | { ok: true }
+  | { ok: false; reason: BarcodeRejectReason };
+
 /**
  * Tracks the application's network connectivity state and synchronization status.
  * Used to manage offline/online functionality and data syncing.
@@ -40,4 +535,160 @@ export interface MissingItem extends ExpectedItem {
 export interface NetworkStatus {
   isConnected: boolean;       // Whether the device currently has network connectivity
   lastSyncTimestamp: string | null; // When data was last successfully synced with the server
-} 
\ No newline at end of file
+} 
+/**
+ * Connection settings for the remote inventory API.
+ * Defaults come from src/config/api-config.json and can be overridden at runtime.
+ */
+export interface ApiConfig {
+  baseUrl: string;            // Root URL of the inventory API (without trailing slash)
+  timeoutMs: number;          // How long a single request may take before it is aborted
+  authToken?: string;         // Optional bearer token sent with every request
+}
+
+/**
+ * Categories of failures an API call can end with.
+ * Lets callers decide whether to retry, fall back to local data or report an error.
+ */
+export type ApiErrorType =
+  | 'offline'                 // Device has no network connectivity
+  | 'timeout'                 // Server did not answer within timeoutMs
+  | 'network'                 // Request failed before a response was received
+  | 'http'                    // Server answered with a non-2xx status code
+  | 'invalid_response'        // Response body could not be parsed or had an unexpected shape
+  | 'rejected'                // Server answered but did not confirm the operation
+  | 'storage';                // Local data needed for the call could not be read or written
+
+/**
+ * Describes why an API call failed.
+ */
+export interface ApiError {
+  type: ApiErrorType;         // Failure category
+  message: string;            // Human-readable explanation for logs and alerts
+  status?: number;            // HTTP status code, present for 'http' errors
+}
+
+/**
+ * Typed outcome of an API call. Calls never throw; they resolve to either
+ * the parsed data or an ApiError.
+ */
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ApiError };
+
+/**
+ * Body sent to the server when uploading the scanned counts of one inventory list.
+ */
+export interface ScanUploadPayload {
+  listId: string;             // ID of the inventory list the counts belong to
+  scannedItems: Record<string, number>; // Article numbers mapped to quantities scanned on this device
+  timestamp: string;          // ISO timestamp of when the upload was created
+  deviceId: string;           // Device the counts were scanned on; the server keeps one entry per device
+  version: number;            // Version of the device's partial count, see DevicePartialCount
+  roundId: string;            // Count round the counts belong to, see DevicePartialCount
+}
+
+/**
+ * One device's share of the count of a list.
+ * Each device only ever changes its own entry, so the entries of several
+ * devices counting the same list can be summed without counting a scan twice.
+ */
+export interface DevicePartialCount {
+  deviceId: string;           // Device the counts were scanned on
+  listId: string;             // ID of the inventory list the counts belong to
+  roundId: string;            // Count round the counts belong to; only counts of the same round are combined
+  version: number;            // Increases with every change on the device; a higher version replaces a lower one
+  updatedAt: string;          // ISO timestamp of the change
+  scannedItems: Record<string, number>; // Article numbers mapped to quantities scanned on the device
+}
+
+/**
+ * Server confirmation for an uploaded set of scanned counts.
+ */
+export interface ScanUploadReceipt {
+  listId: string;             // ID of the inventory list the server stored
+  receivedAt: string;         // ISO timestamp of when the server stored the counts
+}
+
+/**
+ * Summary of a completed synchronization with the server.
+ */
+export interface SyncSummary {
+  syncedAt: string;           // ISO timestamp recorded as the last successful sync
+  uploadedListIds: string[];  // Lists whose scanned counts were confirmed by the server
+}
+
+/**
+ * Body sent to the server when submitting a finished missing items report.
+ */
+export interface ReportSubmissionPayload {
+  listId: string;             // ID of the inventory list the report belongs to
+  sessionId: string;          // ID of the completed count session the report was frozen for
+  report: DiscrepancyReport;  // Grouped report as shown in the discrepancy report screen
+  timestamp: string;          // ISO timestamp of when the submission was queued
+  operator?: OperatorRef;     // Operator who completed the count
+}
+
+/**
+ * Delivery state of a queued outbox entry.
+ */
+export type OutboxEntryStatus =
+  | 'pending'                 // Waiting for (another) delivery attempt
+  | 'failed';                 // Gave up after a permanent error or too many attempts
+
+/**
+ * Fields shared by every kind of queued server operation.
+ */
+interface OutboxEntryBase {
+  id: string;                 // Unique identifier of the queued operation
+  listId: string;             // Inventory list the operation belongs to
+  status: OutboxEntryStatus;  // Current delivery state
+  attempts: number;           // How many delivery attempts have been made
+  createdAt: string;          // ISO timestamp of when the operation was queued
+  nextAttemptAt: string;      // ISO timestamp before which no retry is made
+  lastError?: string;         // Message of the most recent failure, if any
+}
+
+/**
+ * A server operation stored locally until the server confirms it.
+ * Persisted so queued work survives app restarts while offline.
+ */
+export type OutboxEntry =
+  | (OutboxEntryBase & { type: 'scan_upload'; payload: ScanUploadPayload })
+  | (OutboxEntryBase & { type: 'report_submission'; payload: ReportSubmissionPayload });
+
+/**
+ * Snapshot of the outbox used to display sync progress in the UI.
+ */
+export interface OutboxStatus {
+  pending: number;            // Entries still waiting to be delivered
+  failed: number;             // Entries that need manual attention
+  isDraining: boolean;        // Whether delivery is currently in progress
+}
+
+/**
+ * A person allowed to count on the device, from the locally cached operator list.
+ * Operators log in by scanning their badge or entering their PIN.
+ */
+export interface Operator {
+  id: string;                 // Unique identifier of the operator
+  name: string;               // Name shown in the app and on reports
+  badge?: string;             // Barcode printed on the operator's badge
+  pinHash?: string;           // SHA-256 of pinSalt followed by the PIN, as hex, for logging in without a badge
+  pinSalt?: string;           // Random salt of the operator's PIN hash
+  role?: OperatorRole;        // What the operator may do; counter if missing
+}
+
+/**
+ * Roles of operators. Only supervisors may review reports.
+ */
+export type OperatorRole = 'counter' | 'supervisor';
+
+/**
+ * The parts of an operator stamped on scans, corrections and reports.
+ * Credentials are never copied into records.
+ */
+export interface OperatorRef {
+  id: string;                 // ID of the operator
+  name: string;               // Name of the operator at the time of the record
+}
@@ -0,0 +1,60 @@
+/**
+ * Barcode index
+ *
+ * Builds the lookup table used to resolve scanned barcodes to the articles of
+ * a list. Every article is found by its article number (one unit per scan)
+ * and by each of its alias barcodes (multiplier units per scan). GS1 codes are
+ * found by the GTIN they carry.
+ */
+import { BarcodeMatch, BarcodeResolution, ExpectedItem } from '../types';
+import { gtinCandidates, parseGs1 } from './gs1';
+
+/**
+ * Builds the barcode lookup index for the items of a list
+ * When the same barcode is used twice, the first occurrence wins and a warning is logged
+ *
+ * @param items - Items of the inventory list
+ * @returns Map of barcodes to the matched item and units per scan
+ */
+export function buildBarcodeIndex(items: ExpectedItem[]): Map<string, BarcodeMatch> {
+  const index = new Map<string, BarcodeMatch>();
+  const add = (barcode: string, match: BarcodeMatch) => {
+    const existing = index.get(barcode);
+    if (existing) {
+      if (existing.item !== match.item) {
+        console.warn(
+          `Barcode ${barcode} of article ${match.item.articleNumber} is already used by article ${existing.item.articleNumber}`
+        );
+      }
+      return;
+    }
+    index.set(barcode, match);
+  };
+
+  // Article numbers first, so an alias can never shadow another article's number
+  items.forEach(item => add(item.articleNumber, { item, multiplier: 1 }));
+  items.forEach(item =>
+    (item.barcodes || []).forEach(alias => add(alias.barcode, { item, multiplier: alias.multiplier }))
+  );
+  return index;
+}
+
+/**
+ * Resolves a scanned barcode to an article of the list
+ * The barcode is looked up as-is first. Otherwise it is parsed as GS1 data and
+ * looked up by its GTIN, also in its shorter GTIN-13/12/8 forms.
+ *
+ * @param index - Barcode index of the list
+ * @param barcode - The scanned barcode
+ * @returns The matched article, if any, and the extracted GS1 data
+ */
+export function resolveBarcode(index: Map<string, BarcodeMatch>, barcode: string): BarcodeResolution {
+  const direct = index.get(barcode);
+  if (direct) return { match: direct, gs1: null };
+
+  const gs1 = parseGs1(barcode);
+  if (!gs1) return { match: null, gs1: null };
+
+  const candidate = gtinCandidates(gs1.gtin).find(gtin => index.has(gtin));
+  return { match: candidate ? index.get(candidate) || null : null, gs1 };
+}
@@ -0,0 +1,82 @@
+/**
+ * Batch capture
+ *
+ * Pure helpers for collecting every distinct barcode in view during a short
+ * capture window, e.g. all labels on a shelf front, and for placing their
+ * highlight boxes over the camera preview.
+ */
+
+/**
+ * Bounding box of a barcode, in frame or view coordinates
+ */
+export interface BarcodeRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Width and height of the camera frame or the preview view
+ */
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * A distinct barcode collected during a batch capture
+ */
+export interface BatchRead {
+  barcode: string;            // Decoded barcode value
+  rect: BarcodeRect | null;   // Where the barcode was last seen in the frame, if the decoder reported it
+}
+
+/**
+ * Adds a read to the batch, or updates the position of a barcode already in it
+ * The batch keeps the order in which barcodes were first seen
+ *
+ * @param batch - Barcodes collected so far
+ * @param barcode - The decoded barcode value
+ * @param rect - Bounding box in frame coordinates
+ * @returns The updated batch
+ */
+export function addBatchRead(batch: BatchRead[], barcode: string, rect: BarcodeRect | null): BatchRead[] {
+  const index = batch.findIndex(read => read.barcode === barcode);
+  if (index === -1) return [...batch, { barcode, rect }];
+  if (!rect) return batch;
+
+  const next = [...batch];
+  next[index] = { barcode, rect };
+  return next;
+}
+
+/**
+ * Converts a bounding box from frame to preview coordinates
+ * The preview fills the view and crops the frame like "cover" scaling. Frames
+ * delivered in landscape while the view is in portrait (or the other way round)
+ * are rotated by 90 degrees clockwise first, as the camera sensor does.
+ *
+ * @param rect - Bounding box in frame coordinates
+ * @param frame - Size of the camera frame
+ * @param view - Size of the preview view
+ * @returns Bounding box in view coordinates
+ */
+export function toViewRect(rect: BarcodeRect, frame: Size, view: Size): BarcodeRect {
+  const rotated = frame.width > frame.height !== view.width > view.height;
+  const box = rotated
+    ? { left: frame.height - rect.bottom, top: rect.left, right: frame.height - rect.top, bottom: rect.right }
+    : rect;
+  const frameWidth = rotated ? frame.height : frame.width;
+  const frameHeight = rotated ? frame.width : frame.height;
+
+  const scale = Math.max(view.width / frameWidth, view.height / frameHeight);
+  const offsetX = (view.width - frameWidth * scale) / 2;
+  const offsetY = (view.height - frameHeight * scale) / 2;
+  return {
+    left: box.left * scale + offsetX,
+    top: box.top * scale + offsetY,
+    right: box.right * scale + offsetX,
+    bottom: box.bottom * scale + offsetY,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Check-digit validation
+ *
+ * GTIN family barcodes (EAN-8, UPC-A, EAN-13, ITF-14) end in a modulo 10
+ * check digit. Verifying it catches most misreads before they are counted.
+ */
+import { BarcodeReadCheck, ScannerSettings, Symbology } from '../types';
+
+/**
+ * Symbologies whose content is a GTIN with a check digit
+ */
+const GTIN_SYMBOLOGIES: Symbology[] = ['ean13', 'ean8', 'upc_a', 'upc_e', 'itf'];
+
+/**
+ * Calculates the GTIN check digit for the given digits (without check digit)
+ * Digits are weighted 3, 1, 3, ... starting from the right
+ *
+ * @param digits - GTIN without its last digit
+ * @returns The expected check digit
+ */
+export function calculateGtinCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Checks the check digit of a GTIN-8, GTIN-12, GTIN-13 or GTIN-14
+ *
+ * @param gtin - The complete GTIN including its check digit
+ * @returns True if the value has a valid GTIN length and check digit
+ */
+export function isValidGtin(gtin: string): boolean {
+  if (!/^(\d{8}|\d{12,14})$/.test(gtin)) return false;
+  return calculateGtinCheckDigit(gtin.slice(0, -1)) === Number(gtin[gtin.length - 1]);
+}
+
+/**
+ * Expands an 8-digit UPC-E code to the equivalent 12-digit UPC-A code
+ *
+ * @param upcE - UPC-E code with number system and check digit
+ * @returns The UPC-A code, or null if the value is not a valid UPC-E code
+ */
+export function expandUpcE(upcE: string): string | null {
+  if (!/^[01]\d{7}$/.test(upcE)) return null;
+
+  const numberSystem = upcE[0];
+  const data = upcE.slice(1, 7);
+  const checkDigit = upcE[7];
+  const last = data[5];
+  let body: string;
+
+  if (last <= '2') {
+    body = `${data.slice(0, 2)}${last}0000${data.slice(2, 5)}`;
+  } else if (last === '3') {
+    body = `${data.slice(0, 3)}00000${data.slice(3, 5)}`;
+  } else if (last === '4') {
+    body = `${data.slice(0, 4)}00000${data[4]}`;
+  } else {
+    body = `${data.slice(0, 5)}0000${last}`;
+  }
+  return `${numberSystem}${body}${checkDigit}`;
+}
+
+/**
+ * Checks a camera read against the scanner settings
+ *
+ * @param value - The decoded barcode content
+ * @param symbology - Symbology reported by the decoder, null if unknown
+ * @param settings - Allowed symbologies and whether check digits are validated
+ * @returns ok, or the reason the read must be rejected
+ */
+export function checkBarcodeRead(
+  value: string,
+  symbology: Symbology | null,
+  settings: ScannerSettings
+): BarcodeReadCheck {
+  if (symbology && !settings.symbologies.includes(symbology)) {
+    return { ok: false, reason: 'symbology_not_allowed' };
+  }
+  if (!settings.validateCheckDigits || !symbology || !GTIN_SYMBOLOGIES.includes(symbology)) {
+    return { ok: true };
+  }
+
+  // ITF is also used for non-GTIN numbers; only ITF-14 carries a GTIN
+  if (symbology === 'itf' && value.length !== 14) {
+    return { ok: true };
+  }
+  const gtin = symbology === 'upc_e' ? expandUpcE(value) : value;
+  return gtin && isValidGtin(gtin) ? { ok: true } : { ok: false, reason: 'invalid_check_digit' };
+}
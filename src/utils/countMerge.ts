@@ -0,0 +1,103 @@
+/**
+ * Count merging
+ *
+ * Pure functions for combining the partial counts of several devices that
+ * count the same list. Every device owns one counter per list and only ever
+ * replaces it with a newer version, so merging keeps the newest version per
+ * device and the combined total is the sum over devices.
+ *
+ * Merging is commutative, associative and idempotent: devices that receive
+ * the same partial counts in any order, any number of times, end up with the
+ * same result.
+ */
+import { DevicePartialCount } from '../types';
+
+/**
+ * Keeps the entries of downloaded partial counts that can be merged
+ * Entries need a device, list and round ID, a numeric version, an update time and
+ * non-negative whole quantities
+ *
+ * @param value - The parsed partial counts array from the server
+ * @returns The usable partial counts; malformed entries are skipped
+ */
+export function parsePartialCounts(value: unknown[]): DevicePartialCount[] {
+  return value.filter((entry): entry is DevicePartialCount => {
+    if (typeof entry !== 'object' || entry === null) return false;
+    const partial = entry as Record<string, unknown>;
+    const scannedItems = partial.scannedItems;
+    return (
+      typeof partial.deviceId === 'string' &&
+      typeof partial.listId === 'string' &&
+      typeof partial.roundId === 'string' &&
+      typeof partial.version === 'number' && Number.isFinite(partial.version) &&
+      typeof partial.updatedAt === 'string' &&
+      typeof scannedItems === 'object' && scannedItems !== null && !Array.isArray(scannedItems) &&
+      Object.values(scannedItems).every(quantity => Number.isInteger(quantity) && (quantity as number) >= 0)
+    );
+  });
+}
+
+/**
+ * Serializes the counts of a partial in a fixed order, used as the last tie-breaker
+ */
+function canonicalCounts(partial: DevicePartialCount): string {
+  return JSON.stringify(
+    Object.keys(partial.scannedItems)
+      .sort()
+      .map(articleNumber => [articleNumber, partial.scannedItems[articleNumber]])
+  );
+}
+
+/**
+ * Decides which of two partial counts of the same device supersedes the other
+ * The higher version wins. Equal versions only occur when a device's storage
+ * was reset; they are decided by the later update time and finally by the
+ * counts themselves, so every device picks the same winner.
+ *
+ * @param candidate - Partial count that might replace the current one
+ * @param current - Partial count currently kept
+ * @returns True if candidate should replace current
+ */
+export function isNewerPartialCount(candidate: DevicePartialCount, current: DevicePartialCount): boolean {
+  if (candidate.version !== current.version) return candidate.version > current.version;
+  if (candidate.updatedAt !== current.updatedAt) return candidate.updatedAt > current.updatedAt;
+  return canonicalCounts(candidate) > canonicalCounts(current);
+}
+
+/**
+ * Merges collections of partial counts, keeping the newest entry per device
+ *
+ * @param collections - Partial counts from local storage, the server, ...
+ * @returns One partial count per device, sorted by device ID
+ */
+export function mergePartialCounts(...collections: DevicePartialCount[][]): DevicePartialCount[] {
+  const byDevice = new Map<string, DevicePartialCount>();
+  for (const partial of collections.flat()) {
+    const current = byDevice.get(partial.deviceId);
+    if (!current || isNewerPartialCount(partial, current)) {
+      byDevice.set(partial.deviceId, partial);
+    }
+  }
+  return Array.from(byDevice.values()).sort((a, b) =>
+    a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0
+  );
+}
+
+/**
+ * Sums the partial counts of all devices per article
+ *
+ * @param partials - At most one partial count per device, e.g. the result of mergePartialCounts
+ * @returns Map of article numbers to combined quantities; articles with a total of zero are left out
+ */
+export function combinePartialCounts(partials: DevicePartialCount[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const partial of partials) {
+    Object.entries(partial.scannedItems).forEach(([articleNumber, quantity]) => {
+      totals.set(articleNumber, (totals.get(articleNumber) || 0) + quantity);
+    });
+  }
+  totals.forEach((quantity, articleNumber) => {
+    if (quantity === 0) totals.delete(articleNumber);
+  });
+  return totals;
+}
@@ -0,0 +1,78 @@
+/**
+ * CSV helpers
+ *
+ * A small RFC 4180 style parser for the stock lists exported by our ERP.
+ * Supports quoted fields with embedded separators, quotes and line breaks,
+ * and detects whether commas or semicolons are used as separators.
+ */
+
+/**
+ * Guesses the field separator from the first line of a CSV text
+ * Spreadsheets in many locales export with semicolons instead of commas
+ *
+ * @param text - CSV text
+ * @returns ';', '\t' or ','
+ */
+export function detectCsvDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const count = (separator: string) => firstLine.split(separator).length - 1;
+  const candidates = [',', ';', '\t'].sort((a, b) => count(b) - count(a));
+  return count(candidates[0]) > 0 ? candidates[0] : ',';
+}
+
+/**
+ * Parses CSV text into rows of fields
+ * Completely empty lines are skipped; fields are not trimmed
+ *
+ * @param text - CSV text
+ * @param delimiter - Field separator, detected from the first line if omitted
+ * @returns Array of rows, each an array of field values
+ */
+export function parseCsv(text: string, delimiter: string = detectCsvDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark, which Excel adds to exported files
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
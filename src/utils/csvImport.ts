@@ -0,0 +1,129 @@
+/**
+ * CSV import helpers
+ *
+ * Maps the columns of a CSV stock list to ExpectedItem fields and validates
+ * every row before anything is saved, so the operator can review problems in
+ * a preview first.
+ */
+import { CsvColumnMapping, ExpectedItem, ImportIssue, ImportPreview, ImportRow } from '../types';
+
+/**
+ * Header names (lower case, without spaces, dashes and underscores) recognised for each field
+ */
+const HEADER_ALIASES: Record<keyof CsvColumnMapping, string[]> = {
+  articleNumber: ['articlenumber', 'article', 'articleno', 'artnr', 'sku', 'barcode', 'ean', 'itemnumber'],
+  description: ['description', 'name', 'itemname', 'text', 'bezeichnung'],
+  expectedQuantity: ['expectedquantity', 'quantity', 'qty', 'expected', 'stock', 'onhand', 'menge'],
+  imagePath: ['imagepath', 'image', 'picture', 'img'],
+};
+
+/**
+ * Fields that must be mapped to a column before a file can be imported
+ */
+export const REQUIRED_IMPORT_FIELDS: Array<keyof CsvColumnMapping> = ['articleNumber', 'expectedQuantity'];
+
+/**
+ * Labels shown for each import issue
+ */
+export const IMPORT_ISSUE_LABELS: Record<ImportIssue, string> = {
+  missing_article_number: 'Missing article number',
+  duplicate_article_number: 'Duplicate article number',
+  invalid_quantity: 'Quantity is not a whole number',
+};
+
+/**
+ * Normalises a header for comparison, e.g. "Article-No." -> "articleno"
+ */
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_\-.]/g, '');
+}
+
+/**
+ * Guesses which column holds which field from the header row
+ *
+ * @param headers - Column names from the first row of the file
+ * @returns Mapping with null for fields whose column could not be recognised
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalised = headers.map(normaliseHeader);
+  const find = (field: keyof CsvColumnMapping) => {
+    const index = normalised.findIndex(header => HEADER_ALIASES[field].includes(header));
+    return index >= 0 ? index : null;
+  };
+
+  return {
+    articleNumber: find('articleNumber'),
+    description: find('description'),
+    expectedQuantity: find('expectedQuantity'),
+    imagePath: find('imagePath'),
+  };
+}
+
+/**
+ * Checks whether all required fields are mapped to a column
+ *
+ * @param mapping - Column mapping to check
+ * @returns True if the file can be imported with this mapping
+ */
+export function isCompleteMapping(mapping: CsvColumnMapping): boolean {
+  return REQUIRED_IMPORT_FIELDS.every(field => mapping[field] !== null);
+}
+
+/**
+ * Parses a quantity field, accepting only whole numbers of zero or more
+ *
+ * @param value - Raw field value
+ * @returns The quantity, or null if the value is not a valid quantity
+ */
+function parseQuantity(value: string): number | null {
+  const trimmed = value.trim();
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : null;
+}
+
+/**
+ * Maps and validates the data rows of a CSV file
+ * The first occurrence of an article number is kept, later ones are flagged as duplicates
+ *
+ * @param rows - Parsed CSV rows including the header row
+ * @param mapping - Which column holds which field
+ * @returns Preview with every row, its issues and the items that will be imported
+ */
+export function buildImportPreview(rows: string[][], mapping: CsvColumnMapping): ImportPreview {
+  const [headers = [], ...dataRows] = rows;
+  const seenArticleNumbers = new Set<string>();
+  const field = (row: string[], index: number | null) =>
+    index === null ? '' : (row[index] || '').trim();
+
+  const importRows: ImportRow[] = dataRows.map((row, index) => {
+    const issues: ImportIssue[] = [];
+    const articleNumber = field(row, mapping.articleNumber);
+    const quantity = parseQuantity(field(row, mapping.expectedQuantity));
+
+    if (!articleNumber) {
+      issues.push('missing_article_number');
+    } else if (seenArticleNumbers.has(articleNumber)) {
+      issues.push('duplicate_article_number');
+    } else {
+      seenArticleNumbers.add(articleNumber);
+    }
+    if (quantity === null) {
+      issues.push('invalid_quantity');
+    }
+
+    const item: ExpectedItem = {
+      articleNumber,
+      description: field(row, mapping.description),
+      expectedQuantity: quantity ?? 0,
+      imagePath: field(row, mapping.imagePath),
+    };
+    return { rowNumber: index + 2, item, issues };
+  });
+
+  const validItems = importRows.filter(row => row.issues.length === 0).map(row => row.item);
+  return {
+    headers,
+    rows: importRows,
+    validItems,
+    invalidRowCount: importRows.length - validItems.length,
+  };
+}
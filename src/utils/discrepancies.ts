@@ -0,0 +1,177 @@
+/**
+ * Discrepancy helpers
+ *
+ * Pure functions that classify counted items and build the discrepancy report
+ * shown at the end of an inventory check.
+ */
+import {
+  DiscrepancyReport,
+  DiscrepancySortKey,
+  DiscrepancyStatus,
+  DiscrepancyTotals,
+  ExpectedItem,
+  InventoryList,
+  LocationDiscrepancies,
+  MissingItem,
+  UnexpectedItem,
+} from '../types';
+
+/**
+ * Classifies the difference between expected and scanned quantities
+ *
+ * @param expectedQuantity - How many units should be in inventory
+ * @param scannedQuantity - How many units were counted
+ * @returns 'shortage', 'overage' or 'match'
+ */
+export function classifyDiscrepancy(expectedQuantity: number, scannedQuantity: number): DiscrepancyStatus {
+  if (scannedQuantity < expectedQuantity) return 'shortage';
+  if (scannedQuantity > expectedQuantity) return 'overage';
+  return 'match';
+}
+
+/**
+ * Combines an expected item with its scanned quantity
+ *
+ * @param item - The expected item
+ * @param scannedQuantity - How many units were counted
+ * @param serials - Counted serial numbers, for serialized items
+ * @returns The item with its scanned quantity, difference and classification
+ */
+export function toMissingItem(item: ExpectedItem, scannedQuantity: number, serials?: string[]): MissingItem {
+  const missingItem: MissingItem = {
+    ...item,
+    scannedQuantity,
+    missing: item.expectedQuantity - scannedQuantity,
+    status: classifyDiscrepancy(item.expectedQuantity, scannedQuantity),
+  };
+  if (item.serialized) {
+    missingItem.serials = serials || [];
+  }
+  return missingItem;
+}
+
+/**
+ * Sorts report items without modifying the input array
+ *
+ * @param items - Items to sort
+ * @param sortKey - Order to apply
+ * @returns A new, sorted array
+ */
+export function sortMissingItems(items: MissingItem[], sortKey: DiscrepancySortKey): MissingItem[] {
+  const sorted = [...items];
+  switch (sortKey) {
+    case 'variance':
+      return sorted.sort((a, b) =>
+        Math.abs(b.missing) - Math.abs(a.missing) || a.articleNumber.localeCompare(b.articleNumber)
+      );
+    case 'articleNumber':
+      return sorted.sort((a, b) => a.articleNumber.localeCompare(b.articleNumber, undefined, { numeric: true }));
+    case 'description':
+      return sorted.sort((a, b) => a.description.localeCompare(b.description));
+  }
+}
+
+/**
+ * Sums the items and units of each discrepancy group
+ * Units are the shortfall for shortages, the surplus for overages and the
+ * scanned quantity for matches
+ *
+ * @param items - Classified items
+ * @returns Totals per group
+ */
+export function summarizeDiscrepancies(items: MissingItem[]): Record<DiscrepancyStatus, DiscrepancyTotals> {
+  const totalsOf = (status: DiscrepancyStatus, units: (item: MissingItem) => number): DiscrepancyTotals => {
+    const groupItems = items.filter(item => item.status === status);
+    return {
+      items: groupItems.length,
+      units: groupItems.reduce((sum, item) => sum + units(item), 0),
+    };
+  };
+  return {
+    shortage: totalsOf('shortage', item => item.missing),
+    overage: totalsOf('overage', item => -item.missing),
+    match: totalsOf('match', item => item.scannedQuantity),
+  };
+}
+
+/**
+ * Breaks the count of a list down by location
+ * Each location lists the items expected there and the items scanned there,
+ * so an item found in the wrong bin shows up as a shortage in one location
+ * and an overage in the other
+ *
+ * @param list - The inventory list that was counted, with its locations
+ * @param locationCounts - Scanned quantities per location and article
+ * @returns One entry per location of the list, in list order
+ */
+export function buildLocationBreakdown(
+  list: InventoryList,
+  locationCounts: Map<string, Map<string, number>>
+): LocationDiscrepancies[] {
+  return (list.locations || []).map(location => {
+    const counts = locationCounts.get(location.id) || new Map<string, number>();
+    const items = list.items
+      .map(item => {
+        const expectedQuantity =
+          item.locations?.find(entry => entry.locationId === location.id)?.expectedQuantity || 0;
+        const scannedQuantity = counts.get(item.articleNumber) || 0;
+        if (expectedQuantity === 0 && scannedQuantity === 0) return null;
+        return {
+          ...item,
+          expectedQuantity,
+          scannedQuantity,
+          missing: expectedQuantity - scannedQuantity,
+          status: classifyDiscrepancy(expectedQuantity, scannedQuantity),
+        };
+      })
+      .filter((item): item is MissingItem => item !== null);
+
+    return {
+      location,
+      items: sortMissingItems(items, 'variance'),
+      totals: summarizeDiscrepancies(items),
+    };
+  });
+}
+
+/**
+ * Builds the grouped discrepancy report for a counted list
+ *
+ * @param list - The inventory list that was counted
+ * @param items - Every item of the list with its scanned quantity
+ * @param unexpectedItems - Scanned barcodes that are not on the list
+ * @param startedAt - ISO timestamp of when the count session was started
+ * @param generatedAt - ISO timestamp to record as the report time
+ * @returns The report, with each group sorted by largest variance first
+ */
+export function buildDiscrepancyReport(
+  list: InventoryList,
+  items: MissingItem[],
+  unexpectedItems: UnexpectedItem[],
+  startedAt: string | null = null,
+  generatedAt: string = new Date().toISOString()
+): DiscrepancyReport {
+  const group = (status: DiscrepancyStatus) =>
+    sortMissingItems(items.filter(item => item.status === status), 'variance');
+  const shortages = group('shortage');
+  const overages = group('overage');
+  const matches = group('match');
+
+  return {
+    listId: list.id,
+    listName: list.name,
+    startedAt,
+    generatedAt,
+    shortages,
+    overages,
+    matches,
+    unexpectedItems,
+    totals: {
+      ...summarizeDiscrepancies(items),
+      unexpected: {
+        items: unexpectedItems.length,
+        units: unexpectedItems.reduce((sum, item) => sum + item.count, 0),
+      },
+    },
+  };
+}
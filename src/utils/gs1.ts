@@ -0,0 +1,168 @@
+/**
+ * GS1 Application Identifier parsing
+ *
+ * GS1-128 and GS1 DataMatrix codes carry several data fields, each introduced
+ * by an Application Identifier (AI), e.g. "(01)09501101530003(17)250131(10)AB12".
+ * This module extracts the fields the app uses: GTIN (01), batch/lot (10),
+ * expiry date (17) and serial number (21).
+ *
+ * Both the human-readable form with parentheses and the raw form, where
+ * variable-length fields are terminated by the GS character (FNC1), are supported.
+ */
+import { Gs1Data } from '../types';
+import { isValidGtin } from './checkDigit';
+
+/**
+ * Group separator (ASCII 29), which scanners emit for FNC1 inside GS1 data
+ */
+const GS = '\u001d';
+
+/**
+ * Symbology identifiers some scanners prefix to GS1 data
+ * (]C1 GS1-128, ]d2 GS1 DataMatrix, ]Q3 GS1 QR Code, ]e0 GS1 DataBar)
+ */
+const SYMBOLOGY_IDENTIFIER = /^\](C1|d2|Q3|e0)/;
+
+/**
+ * Lengths of the data of fixed-length AIs, keyed by AI
+ * Needed to find where a field ends when no separator follows it
+ */
+const FIXED_LENGTH_AIS: Record<string, number> = {
+  '00': 18, // SSCC
+  '01': 14, // GTIN
+  '02': 14, // GTIN of contained trade items
+  '11': 6,  // Production date
+  '12': 6,  // Due date
+  '13': 6,  // Packaging date
+  '15': 6,  // Best before date
+  '16': 6,  // Sell by date
+  '17': 6,  // Expiration date
+  '20': 2,  // Internal product variant
+};
+
+/**
+ * Variable-length AIs that may appear in the data, with their maximum length
+ */
+const VARIABLE_LENGTH_AIS: Record<string, number> = {
+  '10': 20, // Batch or lot number
+  '21': 20, // Serial number
+  '22': 20, // Consumer product variant
+  '30': 8,  // Variable count
+  '37': 8,  // Count of trade items
+  '240': 30, // Additional product identification
+  '241': 30, // Customer part number
+  '250': 30, // Secondary serial number
+  '400': 30, // Customer's purchase order number
+};
+
+/**
+ * Converts a GS1 date (YYMMDD) to an ISO date (YYYY-MM-DD)
+ * The century follows the GS1 rule: years more than 50 years ahead belong to the
+ * previous century, years more than 49 years back to the next. Day 00 means the
+ * last day of the month.
+ *
+ * @param value - Date in YYMMDD format
+ * @param today - Reference date for the century calculation
+ * @returns ISO date string, or null if the value is not a valid date
+ */
+export function parseGs1Date(value: string, today: Date = new Date()): string | null {
+  if (!/^\d{6}$/.test(value)) return null;
+
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) return null;
+
+  const currentYear = today.getFullYear();
+  const difference = yy - (currentYear % 100);
+  let year = currentYear - (currentYear % 100) + yy;
+  if (difference >= 51) year -= 100;
+  if (difference <= -50) year += 100;
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day === 0) day = daysInMonth;
+  if (day > daysInMonth) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Splits the human-readable form "(01)...(10)..." into AI/value pairs
+ */
+function parseBracketed(data: string): Array<[string, string]> | null {
+  const fields = Array.from(data.matchAll(/\((\d{2,4})\)([^(]*)/g));
+  if (fields.length === 0 || fields.map(field => field[0]).join('') !== data) return null;
+  return fields.map(field => [field[1], field[2]]);
+}
+
+/**
+ * Splits the raw form, where only variable-length fields are followed by GS, into AI/value pairs
+ * Parsing stops at the first unknown AI, since its length cannot be determined
+ */
+function parseRaw(data: string): Array<[string, string]> | null {
+  const fields: Array<[string, string]> = [];
+  let position = 0;
+
+  while (position < data.length) {
+    if (data[position] === GS) {
+      position++;
+      continue;
+    }
+    const ai = [2, 3].map(length => data.slice(position, position + length))
+      .find(candidate => candidate in FIXED_LENGTH_AIS || candidate in VARIABLE_LENGTH_AIS);
+    if (!ai) break;
+
+    const start = position + ai.length;
+    let end: number;
+    if (ai in FIXED_LENGTH_AIS) {
+      end = start + FIXED_LENGTH_AIS[ai];
+      if (end > data.length) return null;
+    } else {
+      const separator = data.indexOf(GS, start);
+      end = Math.min(separator === -1 ? data.length : separator, start + VARIABLE_LENGTH_AIS[ai]);
+    }
+    fields.push([ai, data.slice(start, end)]);
+    position = end;
+  }
+  return fields.length > 0 ? fields : null;
+}
+
+/**
+ * Parses GS1 element strings from a scanned barcode
+ * Only data starting with a valid GTIN (01) is treated as GS1, so plain
+ * article numbers are not misinterpreted
+ *
+ * @param barcode - The decoded barcode content
+ * @returns The extracted fields, or null if the barcode is not GS1 data with a GTIN
+ */
+export function parseGs1(barcode: string): Gs1Data | null {
+  const data = barcode.replace(SYMBOLOGY_IDENTIFIER, '').replace(/^\u001d/, '');
+  const fields = data.startsWith('(') ? parseBracketed(data) : parseRaw(data);
+  if (!fields) return null;
+
+  const values = new Map(fields);
+  const gtin = values.get('01');
+  if (!gtin || !/^\d{14}$/.test(gtin) || !isValidGtin(gtin)) return null;
+
+  const result: Gs1Data = { gtin };
+  const batch = values.get('10');
+  const expiry = values.get('17');
+  const serial = values.get('21');
+  if (batch) result.batch = batch;
+  if (expiry) result.expiryDate = parseGs1Date(expiry) || undefined;
+  if (serial) result.serial = serial;
+  return result;
+}
+
+/**
+ * Returns the forms under which a GTIN-14 may be used as an article number:
+ * the GTIN itself and, with leading zeros removed, GTIN-13, GTIN-12 (UPC-A) and GTIN-8
+ *
+ * @param gtin - A 14-digit GTIN
+ * @returns Candidate article numbers, longest first
+ */
+export function gtinCandidates(gtin: string): string[] {
+  return [14, 13, 12, 8]
+    .filter(length => /^0*$/.test(gtin.slice(0, gtin.length - length)))
+    .map(length => gtin.slice(gtin.length - length));
+}
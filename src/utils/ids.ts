@@ -0,0 +1,17 @@
+/**
+ * Identifier helpers
+ *
+ * Generates identifiers for locally created records. They only need to be
+ * unique on this device, so a timestamp plus a random suffix is sufficient.
+ */
+
+/**
+ * Creates a new unique identifier
+ *
+ * @param prefix - Optional prefix that hints at the record type, e.g. "scan"
+ * @returns A string such as "scan-lq2x8k3a-4f9c1z"
+ */
+export function generateId(prefix?: string): string {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return prefix ? `${prefix}-${id}` : id;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from '@jest/globals';
+import { getItemProgress, matchesItemSearch, queryItems, sortItems } from './itemQuery';
+import { ExpectedItem } from '../types';
+
+/**
+ * Builds a list item with the given article number, description and expected quantity
+ */
+function item(articleNumber: string, description: string, expectedQuantity: number): ExpectedItem {
+  return { articleNumber, description, expectedQuantity, imagePath: '' };
+}
+
+const bolt = item('A-10', 'Hex Bolt M8', 10);
+const nut = item('A-2', 'Hex Nut M8', 5);
+const washer = item('A-100', 'Washer 8mm', 4);
+const screw = item('B-7', 'Wood Screw', 6);
+const items = [bolt, nut, washer, screw];
+
+// bolt partial (6 left), nut complete, washer over-counted, screw not started (6 left)
+const counts = new Map([['A-10', 4], ['A-2', 5], ['A-100', 7]]);
+
+/**
+ * Lists the article numbers of items, to compare orders
+ */
+function articles(result: ExpectedItem[]): string[] {
+  return result.map(entry => entry.articleNumber);
+}
+
+describe('getItemProgress', () => {
+  it.each([
+    [0, 'not_started'],
+    [3, 'partial'],
+    [5, 'complete'],
+    [6, 'over_counted'],
+  ])('classifies %i of 5 as %s', (scanned, progress) => {
+    expect(getItemProgress(nut, scanned)).toBe(progress);
+  });
+
+  it('treats an item expected zero times as complete until it is counted', () => {
+    const retired = item('Z-1', 'Retired', 0);
+
+    expect(getItemProgress(retired, 0)).toBe('complete');
+    expect(getItemProgress(retired, 1)).toBe('over_counted');
+  });
+});
+
+describe('matchesItemSearch', () => {
+  it('matches part of the article number or description, ignoring case', () => {
+    expect(matchesItemSearch(bolt, 'a-1')).toBe(true);
+    expect(matchesItemSearch(bolt, 'bolt')).toBe(true);
+    expect(matchesItemSearch(bolt, '  HEX  ')).toBe(true);
+    expect(matchesItemSearch(bolt, 'nut')).toBe(false);
+  });
+
+  it('matches every item with an empty search', () => {
+    expect(matchesItemSearch(bolt, '')).toBe(true);
+    expect(matchesItemSearch(bolt, '   ')).toBe(true);
+  });
+});
+
+describe('sortItems', () => {
+  it('sorts article numbers numerically', () => {
+    expect(articles(sortItems(items, 'articleNumber', counts))).toEqual(['A-2', 'A-10', 'A-100', 'B-7']);
+  });
+
+  it('sorts by description, then by article number', () => {
+    const twin = item('A-1', 'Hex Bolt M8', 2);
+
+    expect(articles(sortItems([...items, twin], 'description', counts)))
+      .toEqual(['A-1', 'A-10', 'A-2', 'A-100', 'B-7']);
+  });
+
+  it('sorts by remaining quantity descending, ties by article number', () => {
+    expect(articles(sortItems(items, 'remaining', counts))).toEqual(['A-10', 'B-7', 'A-2', 'A-100']);
+  });
+
+  it('does not modify the input array', () => {
+    const input = [...items];
+
+    sortItems(input, 'articleNumber', counts);
+
+    expect(input).toEqual(items);
+  });
+});
+
+describe('queryItems', () => {
+  it('returns every item in list order without a query', () => {
+    expect(queryItems(items, counts)).toEqual(items);
+  });
+
+  it('filters by counting progress', () => {
+    expect(queryItems(items, counts, { progress: 'not_started' })).toEqual([screw]);
+    expect(queryItems(items, counts, { progress: 'over_counted' })).toEqual([washer]);
+  });
+
+  it('lists an item expected zero times as complete, not as still to count', () => {
+    const retired = item('Z-1', 'Retired', 0);
+
+    expect(queryItems([...items, retired], counts, { progress: 'not_started' })).toEqual([screw]);
+    expect(queryItems([...items, retired], counts, { progress: 'complete' })).toEqual([nut, retired]);
+  });
+
+  it('combines search, progress filter and sort order', () => {
+    const result = queryItems(items, new Map(), { search: 'm8', progress: 'not_started', sortBy: 'articleNumber' });
+
+    expect(articles(result)).toEqual(['A-2', 'A-10']);
+  });
+});
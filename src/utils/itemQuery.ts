@@ -0,0 +1,89 @@
+/**
+ * Item search
+ *
+ * Pure functions for finding items on the list being counted: matching a
+ * search text against article numbers and descriptions, filtering by counting
+ * progress and sorting. Large lists are narrowed down with these before they
+ * are rendered.
+ */
+import { ExpectedItem, ItemProgress, ItemQuery, ItemSortKey } from '../types';
+
+/**
+ * Classifies how far an item has been counted
+ * An item expected zero times is complete while none of it has been counted
+ *
+ * @param item - Item on the list
+ * @param scannedQuantity - Quantity counted so far
+ * @returns The counting progress of the item
+ */
+export function getItemProgress(item: ExpectedItem, scannedQuantity: number): ItemProgress {
+  if (scannedQuantity > item.expectedQuantity) return 'over_counted';
+  if (scannedQuantity === item.expectedQuantity) return 'complete';
+  if (scannedQuantity === 0) return 'not_started';
+  return 'partial';
+}
+
+/**
+ * Checks whether an item's article number or description contains a search text
+ * Case is ignored; an empty search text matches every item
+ *
+ * @param item - Item on the list
+ * @param search - Text as typed by the operator
+ * @returns True if the item matches
+ */
+export function matchesItemSearch(item: ExpectedItem, search: string): boolean {
+  const needle = search.trim().toLowerCase();
+  return needle === '' ||
+    item.articleNumber.toLowerCase().includes(needle) ||
+    item.description.toLowerCase().includes(needle);
+}
+
+/**
+ * Sorts items without modifying the input array
+ *
+ * @param items - Items to sort
+ * @param sortKey - Order to apply
+ * @param scannedCounts - Quantities counted so far, by article number
+ * @returns A new, sorted array
+ */
+export function sortItems(
+  items: ExpectedItem[],
+  sortKey: ItemSortKey,
+  scannedCounts: Map<string, number>
+): ExpectedItem[] {
+  const byArticleNumber = (a: ExpectedItem, b: ExpectedItem) =>
+    a.articleNumber.localeCompare(b.articleNumber, undefined, { numeric: true });
+  const remaining = (item: ExpectedItem) =>
+    Math.max(item.expectedQuantity - (scannedCounts.get(item.articleNumber) || 0), 0);
+
+  const sorted = [...items];
+  switch (sortKey) {
+    case 'articleNumber':
+      return sorted.sort(byArticleNumber);
+    case 'description':
+      return sorted.sort((a, b) => a.description.localeCompare(b.description) || byArticleNumber(a, b));
+    case 'remaining':
+      return sorted.sort((a, b) => remaining(b) - remaining(a) || byArticleNumber(a, b));
+  }
+}
+
+/**
+ * Returns the items matching a query, in the requested order
+ *
+ * @param items - Items of the list being counted
+ * @param scannedCounts - Quantities counted so far, by article number
+ * @param query - Search text, progress filter and sort order
+ * @returns Matching items, in list order unless a sort order is given
+ */
+export function queryItems(
+  items: ExpectedItem[],
+  scannedCounts: Map<string, number>,
+  query: ItemQuery = {}
+): ExpectedItem[] {
+  const matching = items.filter(item =>
+    (query.search === undefined || matchesItemSearch(item, query.search)) &&
+    (query.progress === undefined ||
+      getItemProgress(item, scannedCounts.get(item.articleNumber) || 0) === query.progress)
+  );
+  return query.sortBy ? sortItems(matching, query.sortBy, scannedCounts) : matching;
+}
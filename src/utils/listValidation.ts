@@ -0,0 +1,298 @@
+/**
+ * Inventory list validation
+ *
+ * Checks untyped data (bundled config files, stored JSON) against the
+ * InventoryList and ExpectedItem types before it is used by the app.
+ */
+import { ExpectedItem, InventoryList, ScanMode, StorageLocation, Symbology } from '../types';
+
+/**
+ * Symbologies accepted in per-list scanner settings
+ */
+const SYMBOLOGIES: Symbology[] = ['ean13', 'ean8', 'upc_a', 'upc_e', 'code128', 'code39', 'itf', 'datamatrix', 'qr'];
+
+/**
+ * Scan modes accepted in per-list scanner settings
+ */
+const SCAN_MODES: ScanMode[] = ['single', 'continuous', 'batch'];
+
+/**
+ * Result of validating a collection of inventory lists
+ */
+export interface ListValidationResult {
+  lists: InventoryList[];     // Lists that passed validation
+  errors: string[];           // Human-readable problems, e.g. "lists[1].items[0]: expectedQuantity must be ..."
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates an alias barcode of an item
+ *
+ * @param value - Untyped alias barcode
+ * @param path - Location of the alias, used in error messages
+ * @returns Array of problems, empty if the alias is valid
+ */
+function validateItemBarcode(value: unknown, path: string): string[] {
+  if (!isObject(value)) return [`${path}: must be an object`];
+
+  const errors: string[] = [];
+  if (typeof value.barcode !== 'string' || !value.barcode.trim()) {
+    errors.push(`${path}: barcode must be a non-empty string`);
+  }
+  if (!Number.isInteger(value.multiplier) || (value.multiplier as number) < 1) {
+    errors.push(`${path}: multiplier must be a whole number of at least 1`);
+  }
+  if (value.label !== undefined && typeof value.label !== 'string') {
+    errors.push(`${path}: label must be a string`);
+  }
+  return errors;
+}
+
+/**
+ * Validates a storage location of a list
+ *
+ * @param value - Untyped location
+ * @param path - Location in the list data, used in error messages
+ * @returns Array of problems, empty if the location is valid
+ */
+function validateStorageLocation(value: unknown, path: string): string[] {
+  if (!isObject(value)) return [`${path}: must be an object`];
+
+  return (['id', 'barcode', 'aisle', 'shelf', 'bin'] as const)
+    .filter(field => typeof value[field] !== 'string' || !(value[field] as string).trim())
+    .map(field => `${path}: ${field} must be a non-empty string`);
+}
+
+/**
+ * Validates the split of an item's expected quantity over the list's locations
+ *
+ * @param value - Untyped item locations
+ * @param expectedQuantity - Expected quantity of the item the split must add up to
+ * @param locationIds - IDs of the list's locations
+ * @param path - Location of the split, used in error messages
+ * @returns Array of problems, empty if the split is valid
+ */
+function validateItemLocations(
+  value: unknown,
+  expectedQuantity: unknown,
+  locationIds: Set<string>,
+  path: string
+): string[] {
+  if (!Array.isArray(value)) return [`${path}: must be an array`];
+
+  const errors: string[] = [];
+  let total = 0;
+  value.forEach((entry: unknown, index: number) => {
+    const entryPath = `${path}[${index}]`;
+    if (!isObject(entry)) {
+      errors.push(`${entryPath}: must be an object`);
+      return;
+    }
+    if (typeof entry.locationId !== 'string' || !locationIds.has(entry.locationId)) {
+      errors.push(`${entryPath}: locationId must be the id of one of the list's locations`);
+    }
+    if (!Number.isInteger(entry.expectedQuantity) || (entry.expectedQuantity as number) < 0) {
+      errors.push(`${entryPath}: expectedQuantity must be a whole number of zero or more`);
+    } else {
+      total += entry.expectedQuantity as number;
+    }
+  });
+  if (errors.length === 0 && total !== expectedQuantity) {
+    errors.push(`${path}: expected quantities must add up to the item's expectedQuantity`);
+  }
+  return errors;
+}
+
+/**
+ * Validates a single expected item
+ *
+ * @param value - Untyped item
+ * @param path - Location of the item, used in error messages
+ * @returns Array of problems, empty if the item is valid
+ */
+function validateExpectedItem(value: unknown, path: string): string[] {
+  if (!isObject(value)) return [`${path}: must be an object`];
+
+  const errors: string[] = [];
+  if (typeof value.articleNumber !== 'string' || !value.articleNumber.trim()) {
+    errors.push(`${path}: articleNumber must be a non-empty string`);
+  }
+  if (typeof value.description !== 'string') {
+    errors.push(`${path}: description must be a string`);
+  }
+  if (!Number.isInteger(value.expectedQuantity) || (value.expectedQuantity as number) < 0) {
+    errors.push(`${path}: expectedQuantity must be a whole number of zero or more`);
+  }
+  if (typeof value.imagePath !== 'string') {
+    errors.push(`${path}: imagePath must be a string`);
+  }
+  if (value.barcodes !== undefined) {
+    if (!Array.isArray(value.barcodes)) {
+      errors.push(`${path}: barcodes must be an array`);
+    } else {
+      value.barcodes.forEach((alias: unknown, index: number) =>
+        errors.push(...validateItemBarcode(alias, `${path}.barcodes[${index}]`))
+      );
+    }
+  }
+  if (value.serialized !== undefined && typeof value.serialized !== 'boolean') {
+    errors.push(`${path}: serialized must be a boolean`);
+  }
+  return errors;
+}
+
+/**
+ * Validates the scanner settings of a list; every field is optional
+ *
+ * @param value - Untyped settings
+ * @param path - Location of the settings, used in error messages
+ * @returns Array of problems, empty if the settings are valid
+ */
+function validateScannerSettings(value: unknown, path: string): string[] {
+  if (!isObject(value)) return [`${path}: must be an object`];
+
+  const errors: string[] = [];
+  if (value.symbologies !== undefined && (
+    !Array.isArray(value.symbologies) ||
+    !value.symbologies.every((symbology: unknown) => SYMBOLOGIES.includes(symbology as Symbology))
+  )) {
+    errors.push(`${path}: symbologies must be an array of ${SYMBOLOGIES.join(', ')}`);
+  }
+  if (value.validateCheckDigits !== undefined && typeof value.validateCheckDigits !== 'boolean') {
+    errors.push(`${path}: validateCheckDigits must be a boolean`);
+  }
+  if (value.scanMode !== undefined && !SCAN_MODES.includes(value.scanMode as ScanMode)) {
+    errors.push(`${path}: scanMode must be one of ${SCAN_MODES.join(', ')}`);
+  }
+  if (value.cooldownMs !== undefined && (!Number.isInteger(value.cooldownMs) || (value.cooldownMs as number) < 0)) {
+    errors.push(`${path}: cooldownMs must be a whole number of zero or more`);
+  }
+  return errors;
+}
+
+/**
+ * Validates a single inventory list including all of its items
+ *
+ * @param value - Untyped list
+ * @param path - Location of the list, used in error messages
+ * @returns Array of problems, empty if the list is valid
+ */
+export function validateInventoryList(value: unknown, path = 'list'): string[] {
+  if (!isObject(value)) return [`${path}: must be an object`];
+
+  const errors: string[] = [];
+  if (typeof value.id !== 'string' || !value.id.trim()) {
+    errors.push(`${path}: id must be a non-empty string`);
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    errors.push(`${path}: name must be a non-empty string`);
+  }
+  if (typeof value.description !== 'string') {
+    errors.push(`${path}: description must be a string`);
+  }
+  if (value.scannerSettings !== undefined) {
+    errors.push(...validateScannerSettings(value.scannerSettings, `${path}.scannerSettings`));
+  }
+  if (value.blindCount !== undefined && typeof value.blindCount !== 'boolean') {
+    errors.push(`${path}: blindCount must be a boolean`);
+  }
+  if (value.countRound !== undefined && (typeof value.countRound !== 'string' || !value.countRound.trim())) {
+    errors.push(`${path}: countRound must be a non-empty string`);
+  }
+  const locationIds = new Set<string>();
+  const locationBarcodes = new Set<string>();
+  if (value.locations !== undefined) {
+    if (!Array.isArray(value.locations)) {
+      errors.push(`${path}: locations must be an array`);
+    } else {
+      value.locations.forEach((location: unknown, index: number) => {
+        const locationPath = `${path}.locations[${index}]`;
+        const locationErrors = validateStorageLocation(location, locationPath);
+        errors.push(...locationErrors);
+        if (locationErrors.length > 0) return;
+        const { id, barcode } = location as StorageLocation;
+        if (locationIds.has(id)) errors.push(`${locationPath}: duplicate id ${id}`);
+        if (locationBarcodes.has(barcode)) errors.push(`${locationPath}: duplicate barcode ${barcode}`);
+        locationIds.add(id);
+        locationBarcodes.add(barcode);
+      });
+    }
+  }
+  if (!Array.isArray(value.items)) {
+    errors.push(`${path}: items must be an array`);
+    return errors;
+  }
+
+  const articleNumbers = new Set<string>();
+  value.items.forEach((item: unknown, index: number) => {
+    const itemPath = `${path}.items[${index}]`;
+    errors.push(...validateExpectedItem(item, itemPath));
+    if (isObject(item) && item.locations !== undefined) {
+      errors.push(
+        ...validateItemLocations(item.locations, item.expectedQuantity, locationIds, `${itemPath}.locations`)
+      );
+    }
+    const articleNumber = (item as Partial<ExpectedItem>)?.articleNumber;
+    if (typeof articleNumber === 'string') {
+      if (articleNumbers.has(articleNumber)) {
+        errors.push(`${itemPath}: duplicate articleNumber ${articleNumber}`);
+      }
+      articleNumbers.add(articleNumber);
+    }
+    // Location labels are looked up before items, so a shared barcode would make the item unscannable
+    itemBarcodesOf(item)
+      .filter(barcode => locationBarcodes.has(barcode))
+      .forEach(barcode => errors.push(`${itemPath}: barcode ${barcode} is also the label of a location`));
+  });
+  return errors;
+}
+
+/**
+ * Returns the barcodes an untyped item is scanned by: its article number and pack barcodes
+ */
+function itemBarcodesOf(item: unknown): string[] {
+  if (!isObject(item)) return [];
+  const barcodes = typeof item.articleNumber === 'string' ? [item.articleNumber] : [];
+  if (Array.isArray(item.barcodes)) {
+    item.barcodes.forEach((alias: unknown) => {
+      if (isObject(alias) && typeof alias.barcode === 'string') barcodes.push(alias.barcode);
+    });
+  }
+  return barcodes;
+}
+
+/**
+ * Validates an array of inventory lists
+ * Invalid lists and lists whose ID was already used are left out of the result
+ *
+ * @param value - Untyped array of lists
+ * @returns The valid lists and the problems found
+ */
+export function validateInventoryLists(value: unknown): ListValidationResult {
+  if (!Array.isArray(value)) {
+    return { lists: [], errors: ['lists: must be an array'] };
+  }
+
+  const lists: InventoryList[] = [];
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  value.forEach((list: unknown, index: number) => {
+    const path = `lists[${index}]`;
+    const listErrors = validateInventoryList(list, path);
+    if (listErrors.length > 0) {
+      errors.push(...listErrors);
+      return;
+    }
+    const valid = list as InventoryList;
+    if (ids.has(valid.id)) {
+      errors.push(`${path}: duplicate id ${valid.id}`);
+      return;
+    }
+    ids.add(valid.id);
+    lists.push(valid);
+  });
+  return { lists, errors };
+}
@@ -0,0 +1,27 @@
+/**
+ * Storage location helpers
+ *
+ * Pure functions for the storage locations (aisle/shelf/bin) a list can be
+ * counted by.
+ */
+import { StorageLocation } from '../types';
+
+/**
+ * Formats a location for display, e.g. "A-03-2"
+ *
+ * @param location - The location to format
+ * @returns Aisle, shelf and bin joined by dashes
+ */
+export function formatLocation(location: StorageLocation): string {
+  return `${location.aisle}-${location.shelf}-${location.bin}`;
+}
+
+/**
+ * Builds a lookup index from location label barcodes to locations
+ *
+ * @param locations - Locations of a list
+ * @returns Map of label barcodes to locations
+ */
+export function buildLocationIndex(locations: StorageLocation[]): Map<string, StorageLocation> {
+  return new Map(locations.map(location => [location.barcode, location]));
+}
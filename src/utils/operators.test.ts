@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals';
+import { findOperatorByPin, hashPin, parseOperators } from './operators';
+import { Operator } from '../types';
+
+// PIN 4821 with salt c2f1a9e04b7d
+const ann: Operator = {
+  id: 'op-1',
+  name: 'Ann Smith',
+  pinHash: '91defda5ee83b0aa19b82681fb6cb6b799636ab2ab9f7feda4c8d55e0f132859',
+  pinSalt: 'c2f1a9e04b7d',
+};
+// PIN 4821 with salt 5e8d0b3a7c19
+const bo: Operator = {
+  id: 'op-2',
+  name: 'Bo Lee',
+  pinHash: '14ba500de0c420ad2c4247bdaa610706d93ddfcc0dd3566b1326720b558fb5e9',
+  pinSalt: '5e8d0b3a7c19',
+};
+// PIN 3907 with salt 9a41d7e2b0c5
+const cy: Operator = {
+  id: 'op-3',
+  name: 'Cy Park',
+  pinHash: '0e8e993d5fa8ded268e7b624cd89fc516917d3647ace1b8b032c4af4b558540d',
+  pinSalt: '9a41d7e2b0c5',
+};
+
+describe('hashPin', () => {
+  it('hashes the salt followed by the PIN', () => {
+    expect(hashPin('4821', 'c2f1a9e04b7d')).toBe(ann.pinHash);
+  });
+});
+
+describe('findOperatorByPin', () => {
+  it('finds the operator whose hash matches the entered PIN', () => {
+    expect(findOperatorByPin([ann, cy], ' 4821 ')).toBe(ann);
+    expect(findOperatorByPin([ann, cy], '3907')).toBe(cy);
+  });
+
+  it('rejects unknown and empty PINs', () => {
+    expect(findOperatorByPin([ann, cy], '0000')).toBeNull();
+    expect(findOperatorByPin([ann, cy], '  ')).toBeNull();
+  });
+
+  it('rejects a PIN shared by several operators despite different salts', () => {
+    expect(findOperatorByPin([ann, bo, cy], '4821')).toBeNull();
+  });
+});
+
+describe('parseOperators', () => {
+  it('keeps only known fields, so plain PINs are dropped', () => {
+    const parsed = parseOperators([
+      { ...ann, pinHash: ann.pinHash?.toUpperCase(), pin: '4821', role: 'supervisor' },
+    ]);
+
+    expect(parsed).toEqual([{ ...ann, role: 'supervisor' }]);
+  });
+
+  it('skips operators without a badge or a complete PIN hash', () => {
+    const parsed = parseOperators([
+      { id: 'op-4', name: 'Dee Ray', pin: '1234' },
+      { id: 'op-5', name: 'Eli Moss', pinHash: ann.pinHash },
+      { id: 'op-6', name: 'Fay Wu', badge: 'EMP00042', role: 'admin' },
+      { id: 7, name: 'Gus Hale', badge: 'EMP00043' },
+      null,
+    ]);
+
+    expect(parsed).toEqual([{ id: 'op-6', name: 'Fay Wu', badge: 'EMP00042' }]);
+  });
+});
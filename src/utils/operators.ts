@@ -0,0 +1,104 @@
+/**
+ * Operator helpers
+ *
+ * Pure functions for checking operator logins against the cached operator
+ * list and for stamping the logged in operator on records.
+ */
+import { Operator, OperatorRef, ScanEvent } from '../types';
+import { sha256 } from './sha256';
+
+/**
+ * Keeps the entries of a downloaded operator list that can be used to log in
+ * Entries need a string ID and name, and a badge or a PIN hash with its salt.
+ * Only known fields are kept, so a plain PIN sent by the server is never cached
+ *
+ * @param value - The parsed operators array from the server
+ * @returns The usable operators; malformed entries are skipped
+ */
+export function parseOperators(value: unknown[]): Operator[] {
+  const operators: Operator[] = [];
+  for (const entry of value) {
+    if (typeof entry !== 'object' || entry === null) continue;
+    const raw = entry as Record<string, unknown>;
+    if (typeof raw.id !== 'string' || typeof raw.name !== 'string') continue;
+
+    const operator: Operator = { id: raw.id, name: raw.name };
+    if (typeof raw.badge === 'string') operator.badge = raw.badge;
+    if (typeof raw.pinHash === 'string' && typeof raw.pinSalt === 'string') {
+      operator.pinHash = raw.pinHash.toLowerCase();
+      operator.pinSalt = raw.pinSalt;
+    }
+    if (raw.role === 'counter' || raw.role === 'supervisor') operator.role = raw.role;
+    if (operator.badge !== undefined || operator.pinHash !== undefined) operators.push(operator);
+  }
+  return operators;
+}
+
+/**
+ * Computes the hash a PIN is stored as
+ *
+ * @param pin - The PIN
+ * @param salt - The operator's salt
+ * @returns SHA-256 of the salt followed by the PIN, as lowercase hex
+ */
+export function hashPin(pin: string, salt: string): string {
+  return sha256(salt + pin);
+}
+
+/**
+ * Finds the operator a scanned badge belongs to
+ *
+ * @param operators - Operators allowed to log in
+ * @param badge - Barcode read from the badge
+ * @returns The operator, or null if no operator has this badge
+ */
+export function findOperatorByBadge(operators: Operator[], badge: string): Operator | null {
+  const value = badge.trim();
+  if (!value) return null;
+  return operators.find(operator => operator.badge === value) || null;
+}
+
+/**
+ * Finds the operator an entered PIN belongs to
+ * PINs shared by several operators identify nobody and are rejected
+ *
+ * @param operators - Operators allowed to log in
+ * @param pin - PIN as entered
+ * @returns The operator, or null if the PIN matches no operator or more than one
+ */
+export function findOperatorByPin(operators: Operator[], pin: string): Operator | null {
+  const value = pin.trim();
+  if (!value) return null;
+  const matches = operators.filter(operator =>
+    operator.pinHash !== undefined &&
+    operator.pinSalt !== undefined &&
+    hashPin(value, operator.pinSalt) === operator.pinHash
+  );
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Reduces an operator to the fields stamped on records
+ *
+ * @param operator - The logged in operator
+ * @returns ID and name of the operator
+ */
+export function toOperatorRef(operator: Operator): OperatorRef {
+  return { id: operator.id, name: operator.name };
+}
+
+/**
+ * Lists the operators who recorded events in a scan log
+ *
+ * @param events - Scan log, oldest first
+ * @returns Each operator once, in the order of their first event
+ */
+export function deriveOperators(events: ScanEvent[]): OperatorRef[] {
+  const operators = new Map<string, OperatorRef>();
+  for (const event of events) {
+    if (event.operator && !operators.has(event.operator.id)) {
+      operators.set(event.operator.id, event.operator);
+    }
+  }
+  return Array.from(operators.values());
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from '@jest/globals';
+import { escapeCsvField } from './reportFormatters';
+
+describe('escapeCsvField', () => {
+  it('keeps plain text and numbers as they are', () => {
+    expect(escapeCsvField('Widget')).toBe('Widget');
+    expect(escapeCsvField(-3)).toBe('-3');
+  });
+
+  it('quotes fields with separators, quotes or line breaks', () => {
+    expect(escapeCsvField('Widget, red')).toBe('"Widget, red"');
+    expect(escapeCsvField('12" pipe')).toBe('"12"" pipe"');
+    expect(escapeCsvField('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it.each(['=SUM(A1:A9)', '+1', '-2+3', '@cmd', '\tTAB'])(
+    'neutralizes text starting with a formula character: %p',
+    value => {
+      expect(escapeCsvField(value)).toBe(`'${value}`);
+    }
+  );
+
+  it('neutralizes before quoting', () => {
+    expect(escapeCsvField('=HYPERLINK("http://x","y")')).toBe('"\'=HYPERLINK(""http://x"",""y"")"');
+  });
+});
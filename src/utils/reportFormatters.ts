@@ -0,0 +1,485 @@
+/**
+ * Report formatters
+ *
+ * Pure functions that turn a discrepancy report or a session comparison into
+ * file contents for export: CSV for spreadsheets, structured JSON for other
+ * systems and HTML that is rendered to a printable PDF.
+ */
+import {
+  DiscrepancyReport,
+  ItemReview,
+  MissingItem,
+  MovementStatus,
+  OperatorRef,
+  ReviewDecision,
+  ReviewStatus,
+  SessionComparison,
+} from '../types';
+import { formatLocation } from './locations';
+
+/**
+ * Labels used for the report groups in every format
+ */
+const GROUP_LABELS = {
+  shortage: 'Shortage',
+  overage: 'Overage',
+  match: 'Match',
+  unexpected: 'Unexpected',
+};
+
+/**
+ * Labels used for the movement statuses of a session comparison in every format
+ */
+const MOVEMENT_LABELS: Record<MovementStatus, string> = {
+  newly_missing: 'Newly missing',
+  recovered: 'Recovered',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+/**
+ * Labels used for review decisions and review states in every format
+ */
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  recount: 'Recount ordered',
+};
+
+const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Pending',
+  recount_pending: 'Waiting for recounts',
+  approved: 'Approved',
+};
+
+/**
+ * A flat report line shared by the CSV and HTML formats
+ */
+interface ReportLine {
+  group: string;
+  articleNumber: string;
+  description: string;
+  expected: number;
+  scanned: number;
+  variance: number;           // scanned - expected, so shortages are negative
+  serials: string[];          // Counted serial numbers of serialized items
+  review: string;             // Supervisor decision, empty if the item was not reviewed
+  scannedBeforeRecount: number | null; // Original scanned quantity of recounted items
+}
+
+/**
+ * Describes the review decision of an item, e.g. "Accepted by Ann Smith"
+ */
+function describeReview(review: ItemReview | undefined): string {
+  if (!review) return '';
+  const decision = review.decision === 'recount' && review.recountQuantity !== undefined
+    ? 'Recounted'
+    : DECISION_LABELS[review.decision];
+  return review.decidedBy ? `${decision} by ${review.decidedBy.name}` : decision;
+}
+
+/**
+ * Flattens all groups of a report into lines, shortages first
+ */
+function toReportLines(report: DiscrepancyReport): ReportLine[] {
+  const fromItem = (item: MissingItem): ReportLine => {
+    const review = report.review?.items.find(entry => entry.articleNumber === item.articleNumber);
+    return {
+      group: GROUP_LABELS[item.status],
+      articleNumber: item.articleNumber,
+      description: item.description,
+      expected: item.expectedQuantity,
+      scanned: item.scannedQuantity,
+      variance: -item.missing,
+      serials: item.serials || [],
+      review: describeReview(review),
+      scannedBeforeRecount: review?.recountQuantity !== undefined ? review.originalQuantity : null,
+    };
+  };
+
+  return [
+    ...report.shortages.map(fromItem),
+    ...report.overages.map(fromItem),
+    ...report.matches.map(fromItem),
+    ...report.unexpectedItems.map(item => ({
+      group: GROUP_LABELS.unexpected,
+      articleNumber: item.barcode,
+      description: item.description || '',
+      expected: 0,
+      scanned: item.count,
+      variance: item.count,
+      serials: [],
+      review: '',
+      scannedBeforeRecount: null,
+    })),
+  ];
+}
+
+/**
+ * Flattens the location breakdown of a report into lines, one per item and location
+ * Only items with a shortage or overage in their location are included
+ */
+function toLocationLines(report: DiscrepancyReport): Array<ReportLine & { location: string }> {
+  return (report.locations || []).flatMap(entry =>
+    entry.items
+      .filter(item => item.status !== 'match')
+      .map(item => ({
+        location: formatLocation(entry.location),
+        group: GROUP_LABELS[item.status],
+        articleNumber: item.articleNumber,
+        description: item.description,
+        expected: item.expectedQuantity,
+        scanned: item.scannedQuantity,
+        variance: -item.missing,
+        serials: [],
+        review: '',
+        scannedBeforeRecount: null,
+      }))
+  );
+}
+
+/**
+ * Quotes a CSV field when it contains separators, quotes or line breaks
+ * Text starting with a formula character (=, +, -, @, tab or carriage return) is
+ * prefixed with ' so spreadsheets show it instead of evaluating it; numbers are kept
+ *
+ * @param value - Field value
+ * @returns The value, neutralized, quoted and escaped if necessary
+ */
+export function escapeCsvField(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escapes text for safe inclusion in HTML
+ */
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Formats an ISO timestamp for display, or a dash if it is missing
+ */
+function formatTimestamp(timestamp: string | null): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : '-';
+}
+
+/**
+ * Formats a report as CSV
+ * A block of metadata rows (list, timestamps, totals) is followed by an empty
+ * line and one row per item. Reports of lists counted by location end with a
+ * second table of the discrepancies per location
+ *
+ * @param report - The report to format
+ * @returns CSV text
+ */
+export function reportToCsv(report: DiscrepancyReport): string {
+  const rows: Array<Array<string | number>> = [
+    ['List', report.listName],
+    ['List ID', report.listId],
+    ['Started', report.startedAt || ''],
+    ['Generated', report.generatedAt],
+    ['Counted By', formatOperators(report.operators)],
+    ['Generated By', report.generatedBy?.name || ''],
+    ['Review', report.review ? REVIEW_STATUS_LABELS[report.review.status] : ''],
+    ['Shortages', report.totals.shortage.items, report.totals.shortage.units],
+    ['Overages', report.totals.overage.items, report.totals.overage.units],
+    ['Matches', report.totals.match.items, report.totals.match.units],
+    ['Unexpected', report.totals.unexpected.items, report.totals.unexpected.units],
+    [],
+    [
+      'Group',
+      'Article Number',
+      'Description',
+      'Expected',
+      'Scanned',
+      'Variance',
+      'Serials',
+      'Review',
+      'Scanned Before Recount',
+    ],
+    ...toReportLines(report).map(line => [
+      line.group,
+      line.articleNumber,
+      line.description,
+      line.expected,
+      line.scanned,
+      line.variance,
+      line.serials.join(' '),
+      line.review,
+      line.scannedBeforeRecount ?? '',
+    ]),
+  ];
+  if (report.locations) {
+    rows.push(
+      [],
+      ['Location', 'Group', 'Article Number', 'Description', 'Expected', 'Scanned', 'Variance'],
+      ...toLocationLines(report).map(line => [
+        line.location,
+        line.group,
+        line.articleNumber,
+        line.description,
+        line.expected,
+        line.scanned,
+        line.variance,
+      ])
+    );
+  }
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Formats a report as structured JSON
+ *
+ * @param report - The report to format
+ * @returns Pretty-printed JSON text
+ */
+export function reportToJson(report: DiscrepancyReport): string {
+  const reviews = new Map((report.review?.items || []).map(review => [review.articleNumber, review]));
+  const item = (entry: MissingItem) => ({
+    articleNumber: entry.articleNumber,
+    description: entry.description,
+    expectedQuantity: entry.expectedQuantity,
+    scannedQuantity: entry.scannedQuantity,
+    variance: -entry.missing,
+    ...(entry.serials ? { serials: entry.serials } : {}),
+    ...(reviews.has(entry.articleNumber) ? { review: reviews.get(entry.articleNumber) } : {}),
+  });
+
+  return JSON.stringify(
+    {
+      list: { id: report.listId, name: report.listName },
+      session: {
+        startedAt: report.startedAt,
+        generatedAt: report.generatedAt,
+        operators: report.operators,
+        generatedBy: report.generatedBy,
+        reviewStatus: report.review?.status,
+      },
+      totals: report.totals,
+      shortages: report.shortages.map(item),
+      overages: report.overages.map(item),
+      matches: report.matches.map(item),
+      unexpectedItems: report.unexpectedItems,
+      locations: report.locations?.map(entry => ({
+        location: { ...entry.location, label: formatLocation(entry.location) },
+        totals: entry.totals,
+        items: entry.items.map(item),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Joins the names of the operators who counted, e.g. "Ann Smith, Bo Lee"
+ */
+function formatOperators(operators: OperatorRef[] | undefined): string {
+  return (operators || []).map(operator => operator.name).join(', ');
+}
+
+/**
+ * Formats a signed number with an explicit plus sign for increases
+ */
+function formatDelta(value: number): string {
+  return `${value > 0 ? '+' : ''}${value}`;
+}
+
+/**
+ * Wraps report content in an HTML page with the shared print styles
+ */
+function toHtmlDocument(body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <style>
+    body { font-family: sans-serif; font-size: 12px; color: #000; }
+    h1 { color: #2196F3; font-size: 20px; }
+    h2 { color: #2196F3; font-size: 16px; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 20px; }
+    th, td { border: 1px solid #ddd; padding: 6px; text-align: left; }
+    th { background: #F5F5F5; }
+    .number { text-align: right; }
+    .shortage td:last-child, .newly_missing td:last-child { color: #FF5252; }
+    .overage td:last-child, .unexpected td:last-child { color: #FF9800; }
+    .recovered td:last-child { color: #4CAF50; }
+  </style>
+</head>
+<body>${body}
+</body>
+</html>`;
+}
+
+/**
+ * Formats a report as a printable HTML page, used as the source for PDF export
+ *
+ * @param report - The report to format
+ * @returns HTML document text
+ */
+export function reportToHtml(report: DiscrepancyReport): string {
+  const totalsRows = (['shortage', 'overage', 'match', 'unexpected'] as const)
+    .map(group => `
+      <tr>
+        <td>${GROUP_LABELS[group]}</td>
+        <td class="number">${report.totals[group].items}</td>
+        <td class="number">${report.totals[group].units}</td>
+      </tr>`)
+    .join('');
+
+  const itemRows = toReportLines(report)
+    .map(line => `
+      <tr class="${line.group.toLowerCase()}">
+        <td>${escapeHtml(line.group)}</td>
+        <td>${escapeHtml(line.articleNumber)}</td>
+        <td>${escapeHtml(line.description)}${line.serials.length > 0
+          ? `<br /><small>S/N: ${escapeHtml(line.serials.join(', '))}</small>`
+          : ''}${line.review
+          ? `<br /><small>${escapeHtml(line.review)}${line.scannedBeforeRecount !== null
+            ? `, scanned ${line.scannedBeforeRecount} before recount`
+            : ''}</small>`
+          : ''}</td>
+        <td class="number">${line.expected}</td>
+        <td class="number">${line.scanned}</td>
+        <td class="number">${formatDelta(line.variance)}</td>
+      </tr>`)
+    .join('');
+
+  const locationRows = toLocationLines(report)
+    .map(line => `
+      <tr class="${line.group.toLowerCase()}">
+        <td>${escapeHtml(line.location)}</td>
+        <td>${escapeHtml(line.articleNumber)}</td>
+        <td>${escapeHtml(line.description)}</td>
+        <td class="number">${line.expected}</td>
+        <td class="number">${line.scanned}</td>
+        <td class="number">${formatDelta(line.variance)}</td>
+      </tr>`)
+    .join('');
+  const locationTable = report.locations ? `
+  <h2>Discrepancies by Location</h2>
+  <table>
+    <tr><th>Location</th><th>Article</th><th>Description</th><th>Expected</th><th>Scanned</th><th>Variance</th></tr>${locationRows}
+  </table>` : '';
+
+  return toHtmlDocument(`
+  <h1>Inventory Report: ${escapeHtml(report.listName)}</h1>
+  <p>List ID: ${escapeHtml(report.listId)}<br />
+     Started: ${escapeHtml(formatTimestamp(report.startedAt))}<br />
+     Generated: ${escapeHtml(formatTimestamp(report.generatedAt))}<br />
+     Counted by: ${escapeHtml(formatOperators(report.operators) || '-')}<br />
+     Generated by: ${escapeHtml(report.generatedBy?.name || '-')}<br />
+     Review: ${escapeHtml(report.review ? REVIEW_STATUS_LABELS[report.review.status] : '-')}</p>
+  <table>
+    <tr><th>Group</th><th>Items</th><th>Units</th></tr>${totalsRows}
+  </table>
+  <table>
+    <tr><th>Group</th><th>Article</th><th>Description</th><th>Expected</th><th>Scanned</th><th>Variance</th></tr>${itemRows}
+  </table>${locationTable}`);
+}
+
+/**
+ * Formats a session comparison as CSV
+ * A block of metadata rows (list, both sessions, totals) is followed by an
+ * empty line and one row per article
+ *
+ * @param comparison - The comparison to format
+ * @returns CSV text
+ */
+export function comparisonToCsv(comparison: SessionComparison): string {
+  const rows: Array<Array<string | number>> = [
+    ['List', comparison.listName],
+    ['List ID', comparison.listId],
+    ['Previous count', comparison.previousStartedAt || ''],
+    ['Current count', comparison.currentStartedAt || ''],
+    ['Generated', comparison.generatedAt],
+    ...(Object.keys(MOVEMENT_LABELS) as MovementStatus[]).map(status => [
+      MOVEMENT_LABELS[status],
+      comparison.totals[status],
+    ]),
+    ['Net change', comparison.netDelta],
+    [],
+    ['Status', 'Article Number', 'Description', 'Previous', 'Current', 'Change', 'Previous Missing', 'Current Missing'],
+    ...comparison.movements.map(movement => [
+      MOVEMENT_LABELS[movement.status],
+      movement.articleNumber,
+      movement.description,
+      movement.previousScanned,
+      movement.currentScanned,
+      movement.delta,
+      movement.previousMissing,
+      movement.currentMissing,
+    ]),
+  ];
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Formats a session comparison as structured JSON
+ *
+ * @param comparison - The comparison to format
+ * @returns Pretty-printed JSON text
+ */
+export function comparisonToJson(comparison: SessionComparison): string {
+  return JSON.stringify(
+    {
+      list: { id: comparison.listId, name: comparison.listName },
+      previousSession: { id: comparison.previousSessionId, startedAt: comparison.previousStartedAt },
+      currentSession: { id: comparison.currentSessionId, startedAt: comparison.currentStartedAt },
+      generatedAt: comparison.generatedAt,
+      totals: comparison.totals,
+      netDelta: comparison.netDelta,
+      movements: comparison.movements,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Formats a session comparison as a printable HTML page, used as the source for PDF export
+ *
+ * @param comparison - The comparison to format
+ * @returns HTML document text
+ */
+export function comparisonToHtml(comparison: SessionComparison): string {
+  const totalsRows = (Object.keys(MOVEMENT_LABELS) as MovementStatus[])
+    .map(status => `
+      <tr>
+        <td>${MOVEMENT_LABELS[status]}</td>
+        <td class="number">${comparison.totals[status]}</td>
+      </tr>`)
+    .join('');
+
+  const movementRows = comparison.movements
+    .map(movement => `
+      <tr class="${movement.status}">
+        <td>${escapeHtml(MOVEMENT_LABELS[movement.status])}</td>
+        <td>${escapeHtml(movement.articleNumber)}</td>
+        <td>${escapeHtml(movement.description)}</td>
+        <td class="number">${movement.previousScanned}</td>
+        <td class="number">${movement.currentScanned}</td>
+        <td class="number">${formatDelta(movement.delta)}</td>
+      </tr>`)
+    .join('');
+
+  return toHtmlDocument(`
+  <h1>Stock Movement: ${escapeHtml(comparison.listName)}</h1>
+  <p>List ID: ${escapeHtml(comparison.listId)}<br />
+     Previous count: ${escapeHtml(formatTimestamp(comparison.previousStartedAt))}<br />
+     Current count: ${escapeHtml(formatTimestamp(comparison.currentStartedAt))}<br />
+     Generated: ${escapeHtml(formatTimestamp(comparison.generatedAt))}</p>
+  <table>
+    <tr><th>Status</th><th>Articles</th></tr>${totalsRows}
+    <tr><td>Net change (units)</td><td class="number">${formatDelta(comparison.netDelta)}</td></tr>
+  </table>
+  <table>
+    <tr><th>Status</th><th>Article</th><th>Description</th><th>Previous</th><th>Current</th><th>Change</th></tr>${movementRows}
+  </table>`);
+}
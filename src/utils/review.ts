@@ -0,0 +1,210 @@
+/**
+ * Report review
+ *
+ * Pure functions for the supervisor review of a completed count: recording
+ * decisions on variances, building the recount list for selected articles and
+ * folding the recount result back into the reviewed report. The original
+ * figure of a recounted article stays on its review entry, so both values
+ * remain in the report.
+ */
+import {
+  DiscrepancyReport,
+  DiscrepancyStatus,
+  ExpectedItem,
+  InventoryList,
+  ItemReview,
+  MissingItem,
+  OperatorRef,
+  ReviewDecision,
+  ReviewStatus,
+} from '../types';
+import { sortMissingItems, summarizeDiscrepancies, toMissingItem } from './discrepancies';
+
+/**
+ * Returns every item of a report, regardless of its group
+ */
+function reportItems(report: DiscrepancyReport): MissingItem[] {
+  return [...report.shortages, ...report.overages, ...report.matches];
+}
+
+/**
+ * Derives the review state of a report from the decisions on its variances
+ * A variance needs a decision; a recount counts as decided until its result
+ * comes in, after which the new figure needs a decision of its own
+ *
+ * @param report - The reviewed report
+ * @param reviews - Latest decision per article
+ * @returns The review state
+ */
+export function deriveReviewStatus(report: DiscrepancyReport, reviews: ItemReview[]): ReviewStatus {
+  let recountPending = false;
+  for (const item of [...report.shortages, ...report.overages]) {
+    const review = reviews.find(entry => entry.articleNumber === item.articleNumber);
+    if (!review) return 'pending';
+    if (review.decision === 'recount') {
+      if (review.recountQuantity !== undefined) return 'pending';
+      recountPending = true;
+    }
+  }
+  return recountPending ? 'recount_pending' : 'approved';
+}
+
+/**
+ * Returns the report with new review entries and their derived status
+ */
+function withReviews(report: DiscrepancyReport, reviews: ItemReview[]): DiscrepancyReport {
+  return { ...report, review: { status: deriveReviewStatus(report, reviews), items: reviews } };
+}
+
+/**
+ * Records a supervisor decision for articles of a report
+ * Earlier decisions of the same articles are replaced; the original scanned
+ * quantity and a completed recount are kept unless a new recount is ordered
+ *
+ * @param report - The report under review
+ * @param articleNumbers - Articles the decision applies to; articles not in the report are ignored
+ * @param decision - What was decided
+ * @param decidedAt - ISO timestamp of the decision
+ * @param decidedBy - Supervisor who decided
+ * @param recountListId - Recount list the articles were added to, for recount decisions
+ * @returns The report with the updated review
+ */
+export function recordReviewDecision(
+  report: DiscrepancyReport,
+  articleNumbers: string[],
+  decision: ReviewDecision,
+  decidedAt: string,
+  decidedBy?: OperatorRef,
+  recountListId?: string
+): DiscrepancyReport {
+  const reviews = [...(report.review?.items || [])];
+  const items = reportItems(report);
+
+  for (const articleNumber of articleNumbers) {
+    const item = items.find(entry => entry.articleNumber === articleNumber);
+    if (!item) continue;
+
+    const index = reviews.findIndex(entry => entry.articleNumber === articleNumber);
+    const existing = index === -1 ? null : reviews[index];
+    const review: ItemReview = {
+      articleNumber,
+      decision,
+      decidedAt,
+      decidedBy,
+      originalQuantity: existing ? existing.originalQuantity : item.scannedQuantity,
+    };
+    if (decision === 'recount') {
+      review.recountListId = recountListId;
+    } else if (existing?.recountQuantity !== undefined) {
+      review.recountListId = existing.recountListId;
+      review.recountQuantity = existing.recountQuantity;
+      review.recountedAt = existing.recountedAt;
+    }
+
+    if (index === -1) {
+      reviews.push(review);
+    } else {
+      reviews[index] = review;
+    }
+  }
+  return withReviews(report, reviews);
+}
+
+/**
+ * Reduces a report item to the expected item it was counted from
+ */
+function toExpectedItem(item: MissingItem): ExpectedItem {
+  return {
+    articleNumber: item.articleNumber,
+    description: item.description,
+    expectedQuantity: item.expectedQuantity,
+    imagePath: item.imagePath,
+    barcodes: item.barcodes,
+    serialized: item.serialized,
+    locations: item.locations,
+  };
+}
+
+/**
+ * Builds a list with only the given articles of a report, to count them again
+ * Expected quantities, barcodes and locations are taken over from the report
+ *
+ * @param report - The report under review
+ * @param sessionId - ID of the count session the report belongs to
+ * @param articleNumbers - Articles to recount
+ * @param listId - ID of the new list
+ * @returns The recount list
+ */
+export function buildRecountList(
+  report: DiscrepancyReport,
+  sessionId: string,
+  articleNumbers: string[],
+  listId: string
+): InventoryList {
+  const items = reportItems(report)
+    .filter(item => articleNumbers.includes(item.articleNumber))
+    .map(toExpectedItem);
+  const locationIds = new Set(items.flatMap(item => (item.locations || []).map(entry => entry.locationId)));
+  const locations = (report.locations || [])
+    .map(entry => entry.location)
+    .filter(location => locationIds.has(location.id));
+
+  const list: InventoryList = {
+    id: listId,
+    name: `Recount: ${report.listName}`,
+    description: `Recount of ${items.length} article${items.length === 1 ? '' : 's'} with variances`,
+    items,
+    origin: 'recount',
+    recountOf: { listId: report.listId, sessionId },
+  };
+  if (locations.length > 0) {
+    list.locations = locations;
+  }
+  return list;
+}
+
+/**
+ * Replaces the figures of recounted articles with the result of their recount
+ * The articles are regrouped and the totals recalculated; the original figure
+ * stays on each article's review entry. The location breakdown keeps the
+ * figures of the original count
+ *
+ * @param report - The report under review
+ * @param recountListId - ID of the recount list that was counted
+ * @param recountReport - Report of the completed recount
+ * @param recountedAt - ISO timestamp of when the recount was completed
+ * @returns The updated report, or the report unchanged if it ordered no recount with this list
+ */
+export function applyRecount(
+  report: DiscrepancyReport,
+  recountListId: string,
+  recountReport: DiscrepancyReport,
+  recountedAt: string
+): DiscrepancyReport {
+  const recounted = new Map(reportItems(recountReport).map(item => [item.articleNumber, item]));
+  const isRecounted = (review: ItemReview) =>
+    review.decision === 'recount' && review.recountListId === recountListId;
+  if (!report.review?.items.some(isRecounted)) return report;
+
+  const reviews = report.review.items.map(review =>
+    isRecounted(review)
+      ? { ...review, recountQuantity: recounted.get(review.articleNumber)?.scannedQuantity || 0, recountedAt }
+      : review
+  );
+  const items = reportItems(report).map(item => {
+    const review = reviews.find(entry => entry.articleNumber === item.articleNumber);
+    if (!review || !isRecounted(review)) return item;
+    return toMissingItem(toExpectedItem(item), review.recountQuantity || 0, recounted.get(item.articleNumber)?.serials);
+  });
+
+  const group = (status: DiscrepancyStatus) =>
+    sortMissingItems(items.filter(item => item.status === status), 'variance');
+  const updated: DiscrepancyReport = {
+    ...report,
+    shortages: group('shortage'),
+    overages: group('overage'),
+    matches: group('match'),
+    totals: { ...summarizeDiscrepancies(items), unexpected: report.totals.unexpected },
+  };
+  return withReviews(updated, reviews);
+}
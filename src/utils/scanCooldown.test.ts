@@ -0,0 +1,60 @@
+import { describe, expect, it } from '@jest/globals';
+import { filterRead, RecentReads } from './scanCooldown';
+
+const COOLDOWN_MS = 1500;
+
+/**
+ * Feeds reads of [barcode, time] through filterRead and returns which were accepted
+ */
+function acceptedReads(reads: Array<[string, number]>): boolean[] {
+  let recent: RecentReads = new Map();
+  return reads.map(([barcode, now]) => {
+    const result = filterRead(recent, barcode, now, COOLDOWN_MS);
+    recent = result.recent;
+    return result.accepted;
+  });
+}
+
+describe('filterRead', () => {
+  it('accepts the first read of a barcode', () => {
+    expect(filterRead(new Map(), '4006381333931', 0, COOLDOWN_MS).accepted).toBe(true);
+  });
+
+  it('ignores the same barcode within the cooldown window', () => {
+    expect(acceptedReads([['A', 0], ['A', 500], ['A', 1499]])).toEqual([true, false, false]);
+  });
+
+  it('accepts the same barcode again once the window has expired', () => {
+    expect(acceptedReads([['A', 0], ['A', 1500]])).toEqual([true, true]);
+  });
+
+  it('keeps a barcode held in view from being counted again', () => {
+    // Each read restarts the window, so the reads never leave it
+    expect(acceptedReads([['A', 0], ['A', 1000], ['A', 2000], ['A', 3000], ['A', 4000]]))
+      .toEqual([true, false, false, false, false]);
+  });
+
+  it('counts a held barcode again once it was out of view for the whole window', () => {
+    expect(acceptedReads([['A', 0], ['A', 1000], ['A', 2000], ['A', 3500]])).toEqual([true, false, false, true]);
+  });
+
+  it('accepts other barcodes immediately', () => {
+    expect(acceptedReads([['A', 0], ['B', 10], ['A', 20], ['B', 30]])).toEqual([true, true, false, false]);
+  });
+
+  it('drops expired values and keeps recent ones', () => {
+    const recent: RecentReads = new Map([['A', 0], ['B', 1000]]);
+
+    const result = filterRead(recent, 'C', 2000, COOLDOWN_MS);
+
+    expect(Array.from(result.recent.entries())).toEqual([['B', 1000], ['C', 2000]]);
+  });
+
+  it('does not modify the map it was given', () => {
+    const recent: RecentReads = new Map([['A', 0]]);
+
+    filterRead(recent, 'A', 100, COOLDOWN_MS);
+
+    expect(recent.get('A')).toBe(0);
+  });
+});
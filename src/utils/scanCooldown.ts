@@ -0,0 +1,49 @@
+/**
+ * Scan cooldown
+ *
+ * The camera reports the same barcode on every processed frame while a label
+ * is in view. These pure functions decide which of those reads are new scans:
+ * a barcode value is ignored until it has been out of view for the cooldown
+ * window, while other values are accepted immediately.
+ */
+
+/**
+ * When each barcode value was last read, in milliseconds since the epoch
+ */
+export type RecentReads = Map<string, number>;
+
+/**
+ * Outcome of filtering a single camera read
+ */
+export interface CooldownResult {
+  accepted: boolean;          // True if the read counts as a new scan
+  recent: RecentReads;        // Updated read times to pass to the next call
+}
+
+/**
+ * Checks a camera read against the reads seen before
+ * Every read, accepted or not, restarts the cooldown of its value, so a label
+ * held in front of the camera is counted once no matter how long it stays in view.
+ * Values whose cooldown has expired are dropped from the returned map
+ *
+ * @param recent - Read times returned by the previous call
+ * @param barcode - The decoded barcode value
+ * @param now - Time of the read in milliseconds
+ * @param cooldownMs - How long a value must be out of view before it is counted again
+ * @returns Whether the read is a new scan, and the updated read times
+ */
+export function filterRead(
+  recent: RecentReads,
+  barcode: string,
+  now: number,
+  cooldownMs: number
+): CooldownResult {
+  const next: RecentReads = new Map();
+  recent.forEach((lastReadAt, value) => {
+    if (now - lastReadAt < cooldownMs) next.set(value, lastReadAt);
+  });
+
+  const accepted = !next.has(barcode);
+  next.set(barcode, now);
+  return { accepted, recent: next };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from '@jest/globals';
+import { FEEDBACK_SIGNALS, getScanFeedback } from './scanFeedback';
+import { ExpectedItem, ScanResult, ScanResultStatus } from '../types';
+
+const item: ExpectedItem = {
+  articleNumber: 'A-100',
+  description: 'Widget',
+  expectedQuantity: 5,
+  imagePath: 'widget',
+};
+
+/**
+ * Builds the result of a counted scan
+ */
+function counted(scannedQuantity: number, combinedQuantity?: number): ScanResult {
+  return { status: 'counted', quantity: 1, item, scannedQuantity, combinedQuantity };
+}
+
+describe('getScanFeedback', () => {
+  it('reports a count within the expected quantity as success', () => {
+    const feedback = getScanFeedback('A-100', counted(3, 3));
+
+    expect(feedback).toMatchObject({
+      kind: 'success',
+      title: 'Counted',
+      barcode: 'A-100',
+      item,
+      scannedQuantity: 3,
+    });
+    expect(feedback?.blind).toBeUndefined();
+  });
+
+  it('reports exactly the expected quantity as success', () => {
+    expect(getScanFeedback('A-100', counted(5, 5))?.kind).toBe('success');
+  });
+
+  it('flags counts above the expected quantity', () => {
+    expect(getScanFeedback('A-100', counted(6, 6))).toMatchObject({
+      kind: 'over_count',
+      title: 'Over expected quantity',
+    });
+  });
+
+  it('uses the count of all devices for the signal and the figure shown', () => {
+    // This device counted 2, the other devices 4 more
+    const feedback = getScanFeedback('A-100', counted(2, 6));
+
+    expect(feedback?.kind).toBe('over_count');
+    expect(feedback?.scannedQuantity).toBe(6);
+  });
+
+  it('falls back to this device\'s count without a combined count', () => {
+    expect(getScanFeedback('A-100', counted(6))?.kind).toBe('over_count');
+  });
+
+  it('never flags an over-count in blind counts', () => {
+    const feedback = getScanFeedback('A-100', counted(9, 9), true);
+
+    expect(feedback).toMatchObject({ kind: 'success', title: 'Counted', scannedQuantity: 9, blind: true });
+  });
+
+  it('gives every feedback a new ID so repeated scans replay it', () => {
+    const first = getScanFeedback('A-100', counted(1, 1));
+    const second = getScanFeedback('A-100', counted(1, 1));
+
+    expect(first?.id).not.toBe(second?.id);
+  });
+
+  it('reports unknown barcodes', () => {
+    expect(getScanFeedback('999', { status: 'unexpected', quantity: 1 })).toMatchObject({
+      kind: 'unknown',
+      message: 'Recorded as an unexpected item',
+    });
+  });
+
+  it('names the location of a scanned location label', () => {
+    const feedback = getScanFeedback('LOC-A032', {
+      status: 'location_set',
+      quantity: 1,
+      location: { id: 'A-03-2', barcode: 'LOC-A032', aisle: 'A', shelf: '03', bin: '2' },
+    });
+
+    expect(feedback?.kind).toBe('success');
+    expect(feedback?.title).toContain('Location');
+  });
+
+  it('gives no feedback while a serial number is still needed', () => {
+    expect(getScanFeedback('A-100', { status: 'serial_required', quantity: 1, item })).toBeNull();
+  });
+
+  it.each<ScanResultStatus>([
+    'location_required',
+    'duplicate_serial',
+    'invalid_quantity',
+    'operator_required',
+    'session_closed',
+    'no_list',
+  ])('rejects scans with status %s', status => {
+    expect(getScanFeedback('A-100', { status, quantity: 1, item })?.kind).toBe('rejected');
+  });
+
+  it('has a distinct vibration for every feedback kind', () => {
+    const patterns = Object.values(FEEDBACK_SIGNALS).map(signal => signal.vibration);
+    patterns.forEach(pattern => expect(pattern.length).toBeGreaterThan(0));
+    expect(new Set(patterns.map(pattern => pattern.join(','))).size).toBe(patterns.length);
+  });
+});
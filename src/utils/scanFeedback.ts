@@ -0,0 +1,85 @@
+/**
+ * Scan feedback rules
+ *
+ * Decides how the scanner reacts to the result of a scan: which headline and
+ * message the overlay shows, and which vibration pattern is played.
+ * Kept free of camera and device code so the rules can be checked on their own.
+ */
+import { ScanFeedback, ScanFeedbackKind, ScanResult } from '../types';
+import { generateId } from './ids';
+import { formatLocation } from './locations';
+
+/**
+ * Vibration pattern of a feedback kind
+ */
+export interface FeedbackSignal {
+  vibration: number[];        // Alternating wait and vibrate durations in milliseconds
+}
+
+/**
+ * Signals per feedback kind; distinct enough to tell apart without looking
+ */
+export const FEEDBACK_SIGNALS: Record<ScanFeedbackKind, FeedbackSignal> = {
+  success: { vibration: [0, 60] },
+  over_count: { vibration: [0, 150, 100, 150] },
+  unknown: { vibration: [0, 400] },
+  rejected: { vibration: [0, 100, 80, 100, 80, 100] },
+};
+
+/**
+ * Turns the result of a scan into overlay feedback
+ *
+ * @param barcode - Barcode as it was read or entered
+ * @param result - Result returned by InventoryListService.scanItem
+ * @param blindCount - Whether the session is a blind count; counts are then never flagged as over the expected quantity
+ * @returns The feedback to give, or null when the scan needs more input first (a serial number)
+ */
+export function getScanFeedback(barcode: string, result: ScanResult, blindCount = false): ScanFeedback | null {
+  const base = { id: generateId('feedback'), barcode };
+
+  switch (result.status) {
+    case 'counted': {
+      // The count of all devices, so the signal agrees with the completion shown in the list
+      const scannedQuantity = result.combinedQuantity ?? result.scannedQuantity;
+      const overCount = !blindCount && result.item !== undefined &&
+        (scannedQuantity || 0) > result.item.expectedQuantity;
+      return {
+        ...base,
+        kind: overCount ? 'over_count' : 'success',
+        title: overCount ? 'Over expected quantity' : 'Counted',
+        item: result.item,
+        scannedQuantity,
+        blind: blindCount || undefined,
+      };
+    }
+    case 'unexpected':
+      return { ...base, kind: 'unknown', title: 'Unknown barcode', message: 'Recorded as an unexpected item' };
+    case 'location_set':
+      return {
+        ...base,
+        kind: 'success',
+        title: `Location ${result.location ? formatLocation(result.location) : barcode}`,
+        message: 'Items are now counted in this location',
+      };
+    case 'location_required':
+      return { ...base, kind: 'rejected', title: 'No location', message: 'Scan a location label first' };
+    case 'serial_required':
+      return null;
+    case 'duplicate_serial':
+      return {
+        ...base,
+        kind: 'rejected',
+        title: 'Duplicate serial number',
+        item: result.item,
+        message: `Serial number ${result.serial} was already counted`,
+      };
+    case 'invalid_quantity':
+      return { ...base, kind: 'rejected', title: 'Invalid quantity', item: result.item };
+    case 'operator_required':
+      return { ...base, kind: 'rejected', title: 'Not logged in', message: 'Log in before counting' };
+    case 'session_closed':
+      return { ...base, kind: 'rejected', title: 'Count closed', message: 'The count accepts no more scans' };
+    case 'no_list':
+      return { ...base, kind: 'rejected', title: 'No list selected' };
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Scan log helpers
+ *
+ * Pure functions for working with the append-only scan event log.
+ * Scanned quantities are never stored on their own; they are always derived
+ * from the log so that every count can be traced back to individual scans.
+ */
+import { ScanEvent, ScanEventQuery } from '../types';
+
+/**
+ * Sums the quantities of all resolved events per article
+ *
+ * @param events - Scan events of one inventory list
+ * @returns Map of article numbers to scanned quantities
+ */
+export function deriveScannedCounts(events: ScanEvent[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    if (event.articleNumber === null) continue;
+    counts.set(event.articleNumber, (counts.get(event.articleNumber) || 0) + event.quantity);
+  }
+  return counts;
+}
+
+/**
+ * Sums the quantities of all resolved events per location and article
+ * Events recorded without a location are left out
+ *
+ * @param events - Scan events of one count session
+ * @returns Map of location IDs to maps of article numbers to scanned quantities
+ */
+export function deriveLocationCounts(events: ScanEvent[]): Map<string, Map<string, number>> {
+  const counts = new Map<string, Map<string, number>>();
+  for (const event of events) {
+    if (event.articleNumber === null || !event.locationId) continue;
+    const locationCounts = counts.get(event.locationId) || new Map<string, number>();
+    locationCounts.set(event.articleNumber, (locationCounts.get(event.articleNumber) || 0) + event.quantity);
+    counts.set(event.locationId, locationCounts);
+  }
+  return counts;
+}
+
+/**
+ * Collects the serial numbers counted per article
+ * Scans that were undone no longer count
+ *
+ * @param events - Scan events of one count session
+ * @returns Map of article numbers to serial numbers, in scan order
+ */
+export function deriveCountedSerials(events: ScanEvent[]): Map<string, string[]> {
+  const undoneIds = new Set(
+    events.filter(event => event.correctsEventId).map(event => event.correctsEventId)
+  );
+  const serials = new Map<string, string[]>();
+  for (const event of events) {
+    if (event.kind !== 'scan' || !event.serial || !event.articleNumber || undoneIds.has(event.id)) continue;
+    serials.set(event.articleNumber, [...(serials.get(event.articleNumber) || []), event.serial]);
+  }
+  return serials;
+}
+
+/**
+ * Returns the events matching a query, in the order they were recorded
+ *
+ * @param events - Scan events of one inventory list
+ * @param query - Criteria the events must match
+ * @returns Matching scan events
+ */
+export function filterScanEvents(events: ScanEvent[], query: ScanEventQuery = {}): ScanEvent[] {
+  return events.filter(event =>
+    (query.articleNumber === undefined || event.articleNumber === query.articleNumber) &&
+    (query.kind === undefined || event.kind === query.kind) &&
+    (query.source === undefined || event.source === query.source) &&
+    (query.from === undefined || event.timestamp >= query.from) &&
+    (query.to === undefined || event.timestamp <= query.to)
+  );
+}
+
+/**
+ * Finds the most recent counted scan that has not been undone yet
+ *
+ * @param events - Scan events of one inventory list
+ * @returns The scan to undo next, or null if there is none
+ */
+export function findLastUndoableScan(events: ScanEvent[]): ScanEvent | null {
+  const undoneIds = new Set(
+    events.filter(event => event.correctsEventId).map(event => event.correctsEventId)
+  );
+  for (let i = events.length - 1; i >= 0; i--) {
+    const event = events[i];
+    if (event.kind === 'scan' && event.quantity > 0 && !undoneIds.has(event.id)) {
+      return event;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,110 @@
+/**
+ * Session comparison helpers
+ *
+ * Pure functions that compare two counts of the same inventory list and
+ * describe how each article moved between them.
+ */
+import {
+  ArticleMovement,
+  DiscrepancyReport,
+  MissingItem,
+  MovementStatus,
+  SessionComparison,
+} from '../types';
+
+/**
+ * Classifies how an article moved between two counts
+ *
+ * @param previousMissing - Expected minus scanned in the earlier count
+ * @param currentMissing - Expected minus scanned in the later count
+ * @param delta - Change of the scanned quantity
+ * @returns The movement status
+ */
+function classifyMovement(previousMissing: number, currentMissing: number, delta: number): MovementStatus {
+  const wasShort = previousMissing > 0;
+  const isShort = currentMissing > 0;
+  if (isShort && !wasShort) return 'newly_missing';
+  if (wasShort && !isShort) return 'recovered';
+  return delta === 0 ? 'unchanged' : 'changed';
+}
+
+/**
+ * Compares the items of two reports of the same list
+ * Articles listed in only one of them count as 0 scanned and 0 expected in the other
+ *
+ * @param previous - Items of the earlier count
+ * @param current - Items of the later count
+ * @returns One movement per article, largest absolute change first
+ */
+export function compareMissingItems(previous: MissingItem[], current: MissingItem[]): ArticleMovement[] {
+  const previousByArticle = new Map(previous.map(item => [item.articleNumber, item]));
+  const currentByArticle = new Map(current.map(item => [item.articleNumber, item]));
+  const articleNumbers = new Set([...previousByArticle.keys(), ...currentByArticle.keys()]);
+
+  return Array.from(articleNumbers, articleNumber => {
+    const before = previousByArticle.get(articleNumber);
+    const after = currentByArticle.get(articleNumber);
+    const previousScanned = before?.scannedQuantity || 0;
+    const currentScanned = after?.scannedQuantity || 0;
+    const previousMissing = before?.missing || 0;
+    const currentMissing = after?.missing || 0;
+    const delta = currentScanned - previousScanned;
+
+    return {
+      articleNumber,
+      description: after?.description ?? before?.description ?? '',
+      previousScanned,
+      currentScanned,
+      previousMissing,
+      currentMissing,
+      delta,
+      status: classifyMovement(previousMissing, currentMissing, delta),
+    };
+  }).sort((a, b) =>
+    Math.abs(b.delta) - Math.abs(a.delta) ||
+    a.articleNumber.localeCompare(b.articleNumber, undefined, { numeric: true })
+  );
+}
+
+/**
+ * Returns every item of a report regardless of its group
+ */
+function reportItems(report: DiscrepancyReport): MissingItem[] {
+  return [...report.shortages, ...report.overages, ...report.matches];
+}
+
+/**
+ * Compares two reports of the same list
+ * The earlier report is determined by the session start time, so argument order does not matter
+ *
+ * @param first - Report of one session
+ * @param second - Report of another session of the same list
+ * @param generatedAt - ISO timestamp to record as the comparison time
+ * @returns The comparison with per-article movements and totals
+ */
+export function compareReports(
+  first: DiscrepancyReport,
+  second: DiscrepancyReport,
+  generatedAt: string = new Date().toISOString()
+): SessionComparison {
+  const [previous, current] = (first.startedAt || '') <= (second.startedAt || '')
+    ? [first, second]
+    : [second, first];
+  const movements = compareMissingItems(reportItems(previous), reportItems(current));
+
+  const totals: Record<MovementStatus, number> = { newly_missing: 0, recovered: 0, changed: 0, unchanged: 0 };
+  movements.forEach(movement => totals[movement.status]++);
+
+  return {
+    listId: current.listId,
+    listName: current.listName,
+    previousSessionId: previous.sessionId,
+    currentSessionId: current.sessionId,
+    previousStartedAt: previous.startedAt,
+    currentStartedAt: current.startedAt,
+    generatedAt,
+    movements,
+    totals,
+    netDelta: movements.reduce((sum, movement) => sum + movement.delta, 0),
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from '@jest/globals';
+import { sha256 } from './sha256';
+
+describe('sha256', () => {
+  it.each([
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    [
+      'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    ],
+  ])('hashes the test vector %j', (input, expected) => {
+    expect(sha256(input)).toBe(expected);
+  });
+
+  it('hashes inputs longer than one block', () => {
+    expect(sha256('a'.repeat(1000))).toBe('41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3');
+  });
+
+  it('encodes the input as UTF-8', () => {
+    expect(sha256('€')).toBe('c4cc90ed3d26f12d4b08a75140970a7904035c31cbb4515a83f19b9003c00d1d');
+    expect(sha256('😀x')).toBe('10f5e9cdd01d869815a52f43599f9c372ffa4b41cda11b5180da85dc0928333c');
+  });
+});